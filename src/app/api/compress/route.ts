@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api-response";
+import { compressBuffer, parseCompressOptions } from "@/lib/compress";
+import { FILE_EXTENSIONS, MIME_TYPES } from "@/lib/image-formats";
+import {
+  assertFileSize,
+  getImageFile,
+  readFormData,
+  validateImageBuffer,
+} from "@/lib/input";
+import { processingQueue } from "@/lib/queue";
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await readFormData(request);
+    const file = getImageFile(formData);
+    const options = parseCompressOptions(formData);
+
+    assertFileSize(file.name, file.size);
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const inputFormat = await validateImageBuffer(buffer, file.name);
+
+    const result = await processingQueue.run(() =>
+      compressBuffer(buffer, inputFormat, options)
+    );
+
+    return new NextResponse(new Uint8Array(result.buffer), {
+      headers: {
+        "Content-Type": MIME_TYPES[result.applied.format],
+        "Content-Disposition": `attachment; filename="compressed.${
+          FILE_EXTENSIONS[result.applied.format]
+        }"`,
+        "X-Compression-Settings": JSON.stringify(result.applied),
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, "Error al comprimir imagen:");
+  }
+}
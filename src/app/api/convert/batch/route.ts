@@ -0,0 +1,243 @@
+import { NextRequest, NextResponse } from "next/server";
+import JSZip from "jszip";
+import { errorResponse } from "@/lib/api-response";
+import { convertImage, parseConversionSettings } from "@/lib/convert";
+import { ImageError, ImageErrorCode, fromSharpError } from "@/lib/errors";
+import { FILE_EXTENSIONS, IMAGE_FILE_EXTENSIONS } from "@/lib/image-formats";
+import {
+  assertFileSize,
+  readFormData,
+  readImageFile,
+  validateImageBuffer,
+} from "@/lib/input";
+import {
+  MAX_ARCHIVE_BYTES,
+  MAX_ARCHIVE_ENTRIES,
+  formatBytes,
+} from "@/lib/limits";
+import { processingQueue } from "@/lib/queue";
+
+interface BatchInput {
+  name: string;
+  read: () => Promise<Buffer>;
+}
+
+interface ManifestEntry {
+  input: string;
+  output?: string;
+  size?: number;
+  error?: string;
+  code?: ImageErrorCode;
+  detail?: string;
+}
+
+const replaceExtension = (path: string, ext: string) => {
+  const slash = path.lastIndexOf("/");
+  const dot = path.lastIndexOf(".");
+  const base = dot > slash + 1 ? path.slice(0, dot) : path;
+  return `${base}.${ext}`;
+};
+
+const uniquePath = (path: string, used: Set<string>) => {
+  let candidate = path;
+  let counter = 1;
+  while (used.has(candidate.toLowerCase())) {
+    const dot = path.lastIndexOf(".");
+    candidate = `${path.slice(0, dot)}_${counter}${path.slice(dot)}`;
+    counter++;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+const sanitizePath = (path: string) =>
+  path
+    .split(/[\\/]/)
+    .filter((segment) => segment && segment !== "." && segment !== "..")
+    .join("/");
+
+// Descomprime por trozos y se detiene en cuanto un trozo no pasa el control,
+// sin fiarse del tamaño que declara la cabecera del ZIP.
+const inflateEntry = (
+  entry: JSZip.JSZipObject,
+  assertChunk: (chunk: Buffer, size: number) => void
+) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = entry.nodeStream("nodebuffer");
+    stream.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      try {
+        assertChunk(chunk, size);
+      } catch (error) {
+        // Sin lectores, JSZip deja de descomprimir al llenarse el búfer.
+        stream.removeAllListeners("data");
+        stream.pause();
+        reject(error);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+    stream.on("error", reject);
+  });
+
+const readArchive = async (archive: File): Promise<BatchInput[]> => {
+  const zip = await JSZip.loadAsync(await archive.arrayBuffer()).catch(() => {
+    throw new ImageError("INVALID_ARCHIVE", "El archivo ZIP no es válido");
+  });
+
+  const entries = Object.values(zip.files).filter((entry) => {
+    if (entry.dir || entry.name.startsWith("__MACOSX/")) return false;
+    const ext = entry.name.split(".").pop()?.toLowerCase();
+    return !!ext && IMAGE_FILE_EXTENSIONS.includes(ext);
+  });
+
+  if (entries.length > MAX_ARCHIVE_ENTRIES) {
+    throw new ImageError(
+      "ARCHIVE_TOO_LARGE",
+      `El archivo ZIP supera el máximo de ${MAX_ARCHIVE_ENTRIES} imágenes`
+    );
+  }
+
+  let archiveSize = 0;
+  const assertArchiveSize = (chunk: Buffer) => {
+    archiveSize += chunk.length;
+    if (archiveSize > MAX_ARCHIVE_BYTES) {
+      throw new ImageError(
+        "ARCHIVE_TOO_LARGE",
+        `El contenido del ZIP supera el máximo de ${formatBytes(
+          MAX_ARCHIVE_BYTES
+        )} sin comprimir`
+      );
+    }
+  };
+
+  return entries.map((entry) => {
+    const name = sanitizePath(entry.name);
+    return {
+      name,
+      read: async () => {
+        const buffer = await inflateEntry(entry, (chunk, size) => {
+          assertFileSize(name, size);
+          assertArchiveSize(chunk);
+        });
+        await validateImageBuffer(buffer, name);
+        return buffer;
+      },
+    };
+  });
+};
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await readFormData(request);
+    const images = formData
+      .getAll("image")
+      .filter((value): value is File => typeof value !== "string");
+    const archive = formData.get("archive");
+
+    if (images.length === 0 && !(archive instanceof File)) {
+      throw new ImageError("NO_IMAGE", "No se proporcionó ninguna imagen");
+    }
+
+    const settings = await parseConversionSettings(formData);
+
+    const inputs: BatchInput[] = images.map((image) => ({
+      name: sanitizePath(image.name) || "image",
+      read: () => readImageFile(image),
+    }));
+
+    if (archive instanceof File) {
+      inputs.push(...(await readArchive(archive)));
+    }
+
+    if (inputs.length === 0) {
+      throw new ImageError("NO_IMAGE", "El archivo ZIP no contiene imágenes");
+    }
+
+    const zip = new JSZip();
+    const usedPaths = new Set<string>(["manifest.json"]);
+    const manifest: ManifestEntry[] = [];
+
+    // El lote entero ocupa un único hueco de la cola para no dejarlo a medias.
+    await processingQueue.run(async () => {
+      for (const input of inputs) {
+        try {
+          const convertedBuffer = await convertImage(
+            await input.read(),
+            settings
+          );
+          const output = uniquePath(
+            replaceExtension(input.name, FILE_EXTENSIONS[settings.format]),
+            usedPaths
+          );
+          zip.file(output, convertedBuffer);
+          manifest.push({
+            input: input.name,
+            output,
+            size: convertedBuffer.length,
+          });
+        } catch (error) {
+          // Pasado el máximo del ZIP no se sigue descomprimiendo nada más.
+          if (
+            error instanceof ImageError &&
+            error.code === "ARCHIVE_TOO_LARGE"
+          ) {
+            throw error;
+          }
+          const imageError =
+            error instanceof ImageError ? error : fromSharpError(error);
+          if (imageError) {
+            manifest.push({
+              input: input.name,
+              error: imageError.message,
+              code: imageError.code,
+              detail: imageError.detail,
+            });
+          } else {
+            console.error(`Error al convertir ${input.name}:`, error);
+            manifest.push({
+              input: input.name,
+              error: "Error al procesar la imagen",
+              code: "PROCESSING_FAILED",
+            });
+          }
+        }
+      }
+    });
+
+    zip.file(
+      "manifest.json",
+      JSON.stringify(
+        {
+          format: settings.format,
+          options: settings.encoderOptions,
+          metadata: settings.metadataMode,
+          firstFrameOnly: settings.firstFrameOnly,
+          converted: manifest.filter((entry) => !entry.error).length,
+          failed: manifest.filter((entry) => entry.error).length,
+          files: manifest,
+        },
+        null,
+        2
+      )
+    );
+
+    const zipBuffer = await zip.generateAsync({ type: "nodebuffer" });
+
+    return new NextResponse(new Uint8Array(zipBuffer), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="converted_${settings.format}.zip"`,
+      },
+    });
+  } catch (error) {
+    return errorResponse(
+      error,
+      "Error al convertir lote:",
+      "Error al procesar el lote"
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import sharp from "sharp";
+import { errorResponse } from "@/lib/api-response";
+import { ImageInfo } from "@/lib/image-info";
+import {
+  assertFileSize,
+  getImageFile,
+  readFormData,
+  validateImageBuffer,
+} from "@/lib/input";
+
+const DEPTH_BITS: Record<string, number> = {
+  uchar: 8,
+  char: 8,
+  ushort: 16,
+  short: 16,
+  uint: 32,
+  int: 32,
+  float: 32,
+  complex: 64,
+  double: 64,
+  dpcomplex: 128,
+};
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await readFormData(request);
+    const file = getImageFile(formData);
+    assertFileSize(file.name, file.size);
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const format = await validateImageBuffer(buffer, file.name);
+    const metadata = await sharp(buffer).metadata();
+
+    const info: ImageInfo = {
+      format,
+      width: metadata.autoOrient?.width ?? metadata.width ?? 0,
+      height: metadata.autoOrient?.height ?? metadata.height ?? 0,
+      space: metadata.space ?? "desconocido",
+      channels: metadata.channels ?? 0,
+      bitDepth:
+        metadata.bitsPerSample ??
+        (metadata.depth ? DEPTH_BITS[metadata.depth] : 8),
+      hasAlpha: metadata.hasAlpha ?? false,
+      frames: metadata.pages ?? 1,
+      orientation: metadata.orientation ?? 1,
+      hasExif: !!metadata.exif,
+      hasIcc: !!metadata.icc,
+      hasXmp: !!metadata.xmp,
+      density: metadata.density,
+      size: buffer.length,
+    };
+
+    return NextResponse.json(info);
+  } catch (error) {
+    return errorResponse(error, "Error al leer metadatos:");
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api-response";
+import { FILE_EXTENSIONS, MIME_TYPES } from "@/lib/image-formats";
+import {
+  assertFileSize,
+  getImageFile,
+  readFormData,
+  validateImageBuffer,
+} from "@/lib/input";
+import { processingQueue } from "@/lib/queue";
+import { parseResizeOptions, resizeBuffer } from "@/lib/resize";
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await readFormData(request);
+    const file = getImageFile(formData);
+    const options = parseResizeOptions(formData);
+
+    assertFileSize(file.name, file.size);
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const inputFormat = await validateImageBuffer(buffer, file.name);
+
+    const result = await processingQueue.run(() =>
+      resizeBuffer(buffer, inputFormat, options)
+    );
+
+    return new NextResponse(new Uint8Array(result.buffer), {
+      headers: {
+        "Content-Type": MIME_TYPES[result.format],
+        "Content-Disposition": `attachment; filename="resized.${
+          FILE_EXTENSIONS[result.format]
+        }"`,
+        "X-Image-Width": String(result.width),
+        "X-Image-Height": String(result.height),
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, "Error al redimensionar imagen:");
+  }
+}
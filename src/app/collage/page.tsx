@@ -3,11 +3,40 @@
 import { useState, useRef, DragEvent, ClipboardEvent } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import Link from "next/link";
+import FilenameTemplateInput, {
+  useFilenameTemplate,
+} from "@/components/FilenameTemplateInput";
+import FolderPickerButton from "@/components/FolderPickerButton";
+import RejectedFilesNotice from "@/components/RejectedFilesNotice";
+import SizePresetPicker from "@/components/SizePresetPicker";
+import Thumbnail from "@/components/Thumbnail";
+import { CollageCell } from "@/lib/canvas-ops";
+import {
+  BROWSER_FORMATS,
+  RejectedFile,
+  checkImageFiles,
+} from "@/lib/file-check";
+import { buildFilename } from "@/lib/filename-template";
+import { getDroppedFiles } from "@/lib/folder-drop";
+import { SizePreset } from "@/lib/size-presets";
+import {
+  forEachConcurrent,
+  getImageConcurrency,
+  processImage,
+} from "@/lib/worker-pool";
 
 interface ImageFile {
   file: File;
   id: string;
-  image?: HTMLImageElement;
+  width?: number;
+  height?: number;
+}
+
+interface GeneratedCollage {
+  url: string;
+  index: number;
+  width: number;
+  height: number;
 }
 
 export default function CollagePage() {
@@ -15,23 +44,28 @@ export default function CollagePage() {
   const [isDragging, setIsDragging] = useState(false);
   const [columns, setColumns] = useState(3);
   const [rows, setRows] = useState(3);
-  const [aspectRatio, setAspectRatio] = useState<"9:16" | "1:1" | "custom">(
+  const [aspectRatio, setAspectRatio] = useState<"9:16" | "1:1" | "preset">(
     "9:16"
   );
-  const [collages, setCollages] = useState<
-    Array<{ url: string; index: number }>
-  >([]);
+  const [collagePreset, setCollagePreset] = useState<SizePreset | null>(null);
+  const [collages, setCollages] = useState<GeneratedCollage[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [generateError, setGenerateError] = useState("");
+  const [rejectedFiles, setRejectedFiles] = useState<RejectedFile[]>([]);
+  const [filenameTemplate, setFilenameTemplate] =
+    useFilenameTemplate("collage");
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const totalSlots = columns * rows;
 
   const handleImageSelect = async (files: File[]) => {
-    const validFiles = Array.from(files).filter((file) =>
-      file.type.startsWith("image/")
+    const { accepted, rejected } = await checkImageFiles(
+      files,
+      BROWSER_FORMATS
     );
+    setRejectedFiles(rejected);
 
-    if (validFiles.length === 0) return;
+    if (accepted.length === 0) return;
 
     const loadImage = (file: File): Promise<ImageFile> => {
       return new Promise((resolve) => {
@@ -40,10 +74,13 @@ export default function CollagePage() {
 
         img.onload = () => {
           URL.revokeObjectURL(url);
+          // Solo se comprueba que se pueda abrir; la imagen decodificada no
+          // se guarda y se vuelve a leer en el worker al generar.
           resolve({
             file,
             id: `${Date.now()}-${Math.random()}`,
-            image: img,
+            width: img.width,
+            height: img.height,
           });
         };
 
@@ -59,7 +96,9 @@ export default function CollagePage() {
       });
     };
 
-    const newImageFiles = await Promise.all(validFiles.map(loadImage));
+    const newImageFiles = await Promise.all(
+      accepted.map(({ file }) => loadImage(file))
+    );
 
     setImageFiles((prev) => [...prev, ...newImageFiles]);
   };
@@ -74,11 +113,11 @@ export default function CollagePage() {
     setIsDragging(false);
   };
 
-  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+  const handleDrop = async (e: DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragging(false);
 
-    const files = Array.from(e.dataTransfer.files);
+    const files = await getDroppedFiles(e.dataTransfer);
     handleImageSelect(files);
   };
 
@@ -105,57 +144,12 @@ export default function CollagePage() {
     }
   };
 
-  const cropAndResizeImage = (
-    img: HTMLImageElement,
-    targetWidth: number,
-    targetHeight: number
-  ): HTMLCanvasElement => {
-    const canvas = document.createElement("canvas");
-    canvas.width = targetWidth;
-    canvas.height = targetHeight;
-
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return canvas;
-
-    const imgAspect = img.width / img.height;
-    const targetAspect = targetWidth / targetHeight;
-
-    let sourceX = 0;
-    let sourceY = 0;
-    let sourceWidth = img.width;
-    let sourceHeight = img.height;
-
-    if (imgAspect > targetAspect) {
-      sourceWidth = img.height * targetAspect;
-      sourceX = (img.width - sourceWidth) / 2;
-    } else {
-      sourceHeight = img.width / targetAspect;
-      sourceY = (img.height - sourceHeight) / 2;
-    }
-
-    ctx.imageSmoothingEnabled = true;
-    ctx.imageSmoothingQuality = "high";
-    ctx.drawImage(
-      img,
-      sourceX,
-      sourceY,
-      sourceWidth,
-      sourceHeight,
-      0,
-      0,
-      targetWidth,
-      targetHeight
-    );
-
-    return canvas;
-  };
-
   const generateCollage = async () => {
     if (imageFiles.length === 0) return;
 
     setIsGenerating(true);
 
-    const validImages = imageFiles.filter((img) => img.image);
+    const validImages = imageFiles.filter((img) => img.width !== undefined);
 
     if (validImages.length === 0) {
       setIsGenerating(false);
@@ -166,66 +160,117 @@ export default function CollagePage() {
       URL.revokeObjectURL(collage.url);
     });
     setCollages([]);
+    setGenerateError("");
 
-    const cellAspectRatio =
-      aspectRatio === "9:16" ? 9 / 16 : aspectRatio === "1:1" ? 1 : 9 / 16;
+    const cellAspectRatio = aspectRatio === "1:1" ? 1 : 9 / 16;
     const maxCellWidth = 800;
-    const cellWidth = maxCellWidth;
-    const cellHeight = cellWidth / cellAspectRatio;
+    // Con un preset el lienzo mide exactamente eso y las celdas se reparten.
+    const preset = aspectRatio === "preset" ? collagePreset : null;
+    const canvasWidth = preset ? preset.width : maxCellWidth * columns;
+    const canvasHeight = preset
+      ? preset.height
+      : Math.round(maxCellWidth / cellAspectRatio) * rows;
+    const edgeX = (col: number) => Math.round((col * canvasWidth) / columns);
+    const edgeY = (row: number) => Math.round((row * canvasHeight) / rows);
 
     const imagesPerCollage = totalSlots;
     const totalCollages = Math.ceil(validImages.length / imagesPerCollage);
 
-    const generatedCollages: Array<{ url: string; index: number }> = [];
-
-    for (let collageIndex = 0; collageIndex < totalCollages; collageIndex++) {
-      const canvas = document.createElement("canvas");
-      const ctx = canvas.getContext("2d");
-
-      if (!ctx) continue;
-
-      canvas.width = cellWidth * columns;
-      canvas.height = cellHeight * rows;
-
-      ctx.fillStyle = "#ffffff";
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-
+    const renderCollage = async (
+      collageIndex: number
+    ): Promise<GeneratedCollage | null> => {
       const startIndex = collageIndex * imagesPerCollage;
+      const cells: CollageCell[] = [];
 
       for (let row = 0; row < rows; row++) {
         for (let col = 0; col < columns; col++) {
-          const cellIndex = row * columns + col;
-          const globalIndex = startIndex + cellIndex;
-          const imageFile = validImages[globalIndex];
-
-          const x = col * cellWidth;
-          const y = row * cellHeight;
-
-          if (imageFile?.image) {
-            const croppedCanvas = cropAndResizeImage(
-              imageFile.image,
-              cellWidth,
-              cellHeight
-            );
-            ctx.drawImage(croppedCanvas, x, y);
-          }
+          const imageFile = validImages[startIndex + row * columns + col];
+          if (!imageFile) continue;
+
+          const x = edgeX(col);
+          const y = edgeY(row);
+          cells.push({
+            file: imageFile.file,
+            x,
+            y,
+            width: edgeX(col + 1) - x,
+            height: edgeY(row + 1) - y,
+          });
         }
       }
 
-      const blob = await new Promise<Blob | null>((resolve) => {
-        canvas.toBlob(resolve, "image/png", 1.0);
-      });
+      try {
+        const { blob, width, height } = await processImage({
+          type: "collage",
+          cells,
+          width: canvasWidth,
+          height: canvasHeight,
+          background: "#ffffff",
+          // Un lienzo fijo no puede quedarse "sin recorte" más pequeño, así
+          // que ese ajuste también encaja cada imagen con relleno.
+          fit: preset && preset.fit !== "cover" ? "contain" : "cover",
+        });
+        return {
+          url: URL.createObjectURL(blob),
+          index: collageIndex + 1,
+          width,
+          height,
+        };
+      } catch (error) {
+        console.error(
+          `Error al generar el collage ${collageIndex + 1}:`,
+          error
+        );
+        return null;
+      }
+    };
 
-      if (blob) {
-        const url = URL.createObjectURL(blob);
-        generatedCollages.push({ url, index: collageIndex + 1 });
+    // Se generan por tandas para no tener todos los lienzos en memoria a la
+    // vez; el array por índice conserva el orden.
+    const rendered: Array<GeneratedCollage | null> = [];
+    await forEachConcurrent(
+      Array.from({ length: totalCollages }, (_, index) => index),
+      getImageConcurrency(),
+      async (index) => {
+        rendered[index] = await renderCollage(index);
       }
-    }
+    );
+    const generatedCollages = rendered.filter(
+      (collage): collage is GeneratedCollage => collage !== null
+    );
 
+    const failed = totalCollages - generatedCollages.length;
+    if (failed > 0) {
+      setGenerateError(
+        failed === 1
+          ? "No se pudo generar 1 collage: alguna imagen no se pudo abrir"
+          : `No se pudieron generar ${failed} collages: alguna imagen no se pudo abrir`
+      );
+    }
     setCollages(generatedCollages);
     setIsGenerating(false);
   };
 
+  const downloadCollage = async (collage: GeneratedCollage) => {
+    const blob = await (await fetch(collage.url)).blob();
+    const a = document.createElement("a");
+    a.href = collage.url;
+    a.download = await buildFilename(
+      filenameTemplate,
+      {
+        name: `collage_${columns}x${rows}`,
+        ext: "png",
+        w: collage.width,
+        h: collage.height,
+        index: collage.index,
+      },
+      blob
+    );
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
   const handleDownload = (collageIndex?: number) => {
     if (collages.length === 0) return;
 
@@ -233,26 +278,10 @@ export default function CollagePage() {
       const collage = collages[collageIndex];
       if (!collage) return;
 
-      const a = document.createElement("a");
-      a.href = collage.url;
-      a.download = `collage_${columns}x${rows}_${
-        collage.index
-      }_${Date.now()}.png`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
+      downloadCollage(collage);
     } else {
       collages.forEach((collage, index) => {
-        setTimeout(() => {
-          const a = document.createElement("a");
-          a.href = collage.url;
-          a.download = `collage_${columns}x${rows}_${
-            collage.index
-          }_${Date.now()}.png`;
-          document.body.appendChild(a);
-          a.click();
-          document.body.removeChild(a);
-        }, index * 100);
+        setTimeout(() => downloadCollage(collage), index * 100);
       });
     }
   };
@@ -267,6 +296,7 @@ export default function CollagePage() {
       URL.revokeObjectURL(collage.url);
     });
     setCollages([]);
+    setGenerateError("");
   };
 
   const handleColumnsChange = (value: number) => {
@@ -333,7 +363,7 @@ export default function CollagePage() {
         transition={{ duration: 0.5, delay: 0.1 }}
         className="flex-1 max-w-7xl mx-auto w-full bg-white dark:bg-gray-800 rounded-xl shadow-xl p-3 sm:p-4 flex flex-col gap-3 overflow-hidden"
       >
-        <div className="grid grid-cols-1 sm:grid-cols-4 gap-2 sm:gap-3 p-2 bg-gray-50 dark:bg-gray-700 rounded-lg">
+        <div className="grid grid-cols-1 sm:grid-cols-5 gap-2 sm:gap-3 p-2 bg-gray-50 dark:bg-gray-700 rounded-lg">
           <div>
             <label className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
               Columnas
@@ -369,17 +399,30 @@ export default function CollagePage() {
             <select
               value={aspectRatio}
               onChange={(e) =>
-                setAspectRatio(e.target.value as "9:16" | "1:1" | "custom")
+                setAspectRatio(e.target.value as "9:16" | "1:1" | "preset")
               }
               className="w-full px-2 py-1 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
             >
               <option value="9:16">9:16 (Vertical)</option>
               <option value="1:1">1:1 (Cuadrado)</option>
-              <option value="custom" disabled>
-                Personalizado (próximamente)
-              </option>
+              {collagePreset && (
+                <option value="preset">
+                  {`${collagePreset.label} (${collagePreset.width}×${collagePreset.height})`}
+                </option>
+              )}
             </select>
           </div>
+          <div>
+            <label className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+              Preset
+            </label>
+            <SizePresetPicker
+              onApply={(preset) => {
+                setCollagePreset(preset);
+                setAspectRatio("preset");
+              }}
+            />
+          </div>
           <div className="flex items-end">
             <div className="w-full">
               <p className="text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
@@ -444,8 +487,14 @@ export default function CollagePage() {
               <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400">
                 o clic para seleccionar / Ctrl+V
               </p>
+              <FolderPickerButton onSelect={handleImageSelect} />
             </div>
 
+            <RejectedFilesNotice
+              files={rejectedFiles}
+              onDismiss={() => setRejectedFiles([])}
+            />
+
             {imageFiles.length > 0 && (
               <>
                 <div className="flex justify-between items-center gap-2 flex-shrink-0">
@@ -473,6 +522,12 @@ export default function CollagePage() {
                   </div>
                 </div>
 
+                {generateError && (
+                  <p className="text-xs text-red-600 dark:text-red-400 flex-shrink-0">
+                    {generateError}
+                  </p>
+                )}
+
                 <div className="flex-1 overflow-y-auto space-y-2 pr-1">
                   <AnimatePresence>
                     {imageFiles.map((imageFile, index) => (
@@ -492,14 +547,16 @@ export default function CollagePage() {
                             </div>
                           </div>
 
+                          <Thumbnail file={imageFile.file} />
+
                           <div className="flex-1 min-w-0">
                             <p className="text-xs sm:text-sm font-medium text-gray-800 dark:text-gray-200 truncate">
                               {imageFile.file.name}
                             </p>
                             <p className="text-xs text-gray-500 dark:text-gray-400">
                               {(imageFile.file.size / 1024).toFixed(1)} KB
-                              {imageFile.image &&
-                                ` • ${imageFile.image.width}×${imageFile.image.height}`}
+                              {imageFile.width !== undefined &&
+                                ` • ${imageFile.width}×${imageFile.height}`}
                             </p>
                           </div>
 
@@ -535,6 +592,12 @@ export default function CollagePage() {
               )}
             </div>
 
+            <FilenameTemplateInput
+              tool="collage"
+              value={filenameTemplate}
+              onChange={setFilenameTemplate}
+            />
+
             <div className="flex-1 bg-gray-100 dark:bg-gray-900 rounded-lg overflow-auto p-4">
               {collages.length > 0 ? (
                 <div className="space-y-4">
@@ -1,9 +1,48 @@
 "use client";
 
-import { useState, useRef, DragEvent, ClipboardEvent } from "react";
+import { useEffect, useState, useRef, DragEvent, ClipboardEvent } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import Link from "next/link";
 import JSZip from "jszip";
+import CompareViewer from "@/components/CompareViewer";
+import FilenameTemplateInput, {
+  useFilenameTemplate,
+} from "@/components/FilenameTemplateInput";
+import FolderPickerButton from "@/components/FolderPickerButton";
+import RejectedFilesNotice from "@/components/RejectedFilesNotice";
+import Thumbnail from "@/components/Thumbnail";
+import { ImageInfo, describeImageInfo, fetchImageInfo } from "@/lib/image-info";
+import {
+  AppliedCompression,
+  COMPRESS_EFFORT_RANGE,
+  COMPRESS_FORMATS,
+  COMPRESS_FORMAT_LABELS,
+  COMPRESS_MAX_DIMENSION_RANGE,
+  COMPRESS_TARGET_BYTES_RANGE,
+  CompressFormat,
+  describeAppliedCompression,
+} from "@/lib/compress-options";
+import { ApiError, readApiError } from "@/lib/api-error";
+import { fetchWithRetry } from "@/lib/fetch-with-retry";
+import {
+  BROWSER_FORMATS,
+  RejectedFile,
+  SNIFFED_FORMATS,
+  checkImageFiles,
+} from "@/lib/file-check";
+import {
+  buildFilename,
+  getBaseName,
+  uniqueFileName,
+} from "@/lib/filename-template";
+import { getDroppedFiles, withFileName } from "@/lib/folder-drop";
+import { FILE_EXTENSIONS, getExtensionForMime } from "@/lib/image-formats";
+import { revokeObjectUrls } from "@/lib/object-urls";
+import {
+  forEachConcurrent,
+  getBatchConcurrency,
+  processImage,
+} from "@/lib/worker-pool";
 
 interface ImageFile {
   file: File;
@@ -11,32 +50,69 @@ interface ImageFile {
   status: "pending" | "compressing" | "completed" | "error";
   compressedUrl?: string;
   error?: string;
+  info?: ImageInfo;
   originalSize?: number;
   compressedSize?: number;
+  applied?: AppliedCompression;
+  formatWarning?: string;
 }
 
+type ProcessingMode = "client" | "server";
+
+const clamp = (value: number, [min, max]: [number, number]) =>
+  Math.min(Math.max(value, min), max);
+
 export default function CompressPage() {
   const [imageFiles, setImageFiles] = useState<ImageFile[]>([]);
   const [isDragging, setIsDragging] = useState(false);
   const [quality, setQuality] = useState(0.7);
   const [isCompressing, setIsCompressing] = useState(false);
+  const [processingMode, setProcessingMode] =
+    useState<ProcessingMode>("client");
+  const [serverFormat, setServerFormat] = useState<CompressFormat>("auto");
+  const [effort, setEffort] = useState<number | "">("");
+  const [maxDimension, setMaxDimension] = useState<number | "">("");
+  const [targetKB, setTargetKB] = useState<number | "">("");
+  const [filenameTemplate, setFilenameTemplate] =
+    useFilenameTemplate("compress");
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [rejectedFiles, setRejectedFiles] = useState<RejectedFile[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const imageFilesRef = useRef(imageFiles);
 
-  const handleImageSelect = (files: File[]) => {
-    const validFiles = Array.from(files).filter((file) =>
-      file.type.startsWith("image/")
-    );
+  useEffect(() => {
+    imageFilesRef.current = imageFiles;
+  }, [imageFiles]);
+
+  // Sin servidor se rechazan de entrada los formatos que el navegador no abre.
+  const acceptedInputs =
+    processingMode === "client" ? BROWSER_FORMATS : SNIFFED_FORMATS;
 
-    if (validFiles.length === 0) return;
+  const handleImageSelect = async (files: File[]) => {
+    const { accepted, rejected } = await checkImageFiles(files, acceptedInputs);
+    setRejectedFiles(rejected);
 
-    const newImageFiles: ImageFile[] = validFiles.map((file) => ({
+    if (accepted.length === 0) return;
+
+    const newImageFiles: ImageFile[] = accepted.map(({ file, warning }) => ({
       file,
       id: `${Date.now()}-${Math.random()}`,
       status: "pending",
       originalSize: file.size,
+      formatWarning: warning,
     }));
 
     setImageFiles((prev) => [...prev, ...newImageFiles]);
+    newImageFiles.forEach(loadImageInfo);
+  };
+
+  const loadImageInfo = async (imageFile: ImageFile) => {
+    const info = await fetchImageInfo(imageFile.file);
+    if (!info) return;
+
+    setImageFiles((prev) =>
+      prev.map((img) => (img.id === imageFile.id ? { ...img, info } : img))
+    );
   };
 
   const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
@@ -49,11 +125,11 @@ export default function CompressPage() {
     setIsDragging(false);
   };
 
-  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+  const handleDrop = async (e: DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragging(false);
 
-    const files = Array.from(e.dataTransfer.files);
+    const files = await getDroppedFiles(e.dataTransfer);
     handleImageSelect(files);
   };
 
@@ -80,93 +156,48 @@ export default function CompressPage() {
     }
   };
 
-  const compressImage = async (
-    file: File,
-    qualityPercent: number
-  ): Promise<Blob> => {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      const url = URL.createObjectURL(file);
-
-      img.onload = () => {
-        URL.revokeObjectURL(url);
-
-        const canvas = document.createElement("canvas");
-        canvas.width = img.width;
-        canvas.height = img.height;
-
-        const ctx = canvas.getContext("2d");
-        if (!ctx) {
-          reject(new Error("No se pudo obtener el contexto del canvas"));
-          return;
-        }
-
-        ctx.imageSmoothingEnabled = qualityPercent > 0.5;
-        ctx.imageSmoothingQuality =
-          qualityPercent > 0.7
-            ? "high"
-            : qualityPercent > 0.4
-            ? "medium"
-            : "low";
-        ctx.drawImage(img, 0, 0);
-
-        const originalType = file.type.toLowerCase();
-        let outputMimeType = "image/jpeg";
-        let outputQuality = qualityPercent;
-
-        if (originalType === "image/png") {
-          const tempCanvas = document.createElement("canvas");
-          tempCanvas.width = img.width;
-          tempCanvas.height = img.height;
-          const tempCtx = tempCanvas.getContext("2d");
-          if (tempCtx) {
-            tempCtx.drawImage(img, 0, 0);
-            const imageData = tempCtx.getImageData(
-              0,
-              0,
-              tempCanvas.width,
-              tempCanvas.height
-            );
-            const hasTransparency = imageData.data.some(
-              (_, i) => i % 4 === 3 && imageData.data[i] < 255
-            );
-
-            if (hasTransparency) {
-              outputMimeType = "image/png";
-              outputQuality = Math.max(0.1, qualityPercent * 0.9);
-            } else {
-              outputMimeType = "image/jpeg";
-            }
-          }
-        } else if (originalType === "image/webp") {
-          outputMimeType = "image/webp";
-        } else if (
-          originalType.includes("jpeg") ||
-          originalType.includes("jpg")
-        ) {
-          outputMimeType = "image/jpeg";
-        }
-
-        canvas.toBlob(
-          (blob) => {
-            if (blob) {
-              resolve(blob);
-            } else {
-              reject(new Error("Error al crear el blob"));
-            }
-          },
-          outputMimeType,
-          outputQuality
-        );
-      };
-
-      img.onerror = () => {
-        URL.revokeObjectURL(url);
-        reject(new Error("Error al cargar la imagen"));
-      };
+  const compressImage = async (file: File, quality: number): Promise<Blob> =>
+    (await processImage({ type: "compress", file, quality })).blob;
+
+  const compressOnServer = async (
+    file: File
+  ): Promise<{ blob: Blob; applied?: AppliedCompression }> => {
+    const formData = new FormData();
+    formData.append("image", file);
+    formData.append("format", serverFormat);
+    formData.append("quality", String(Math.round(quality * 100)));
+    // JPG (mozjpeg) no tiene nivel de esfuerzo.
+    if (typeof effort === "number" && serverFormat !== "jpg") {
+      formData.append("effort", String(clamp(effort, COMPRESS_EFFORT_RANGE)));
+    }
+    if (typeof maxDimension === "number" && maxDimension > 0) {
+      formData.append(
+        "maxDimension",
+        String(clamp(maxDimension, COMPRESS_MAX_DIMENSION_RANGE))
+      );
+    }
+    if (typeof targetKB === "number" && targetKB > 0) {
+      formData.append(
+        "targetBytes",
+        String(clamp(Math.round(targetKB * 1024), COMPRESS_TARGET_BYTES_RANGE))
+      );
+    }
 
-      img.src = url;
+    const response = await fetchWithRetry("/api/compress", {
+      method: "POST",
+      body: formData,
     });
+
+    if (!response.ok) {
+      throw await readApiError(response, "Error al comprimir en el servidor");
+    }
+
+    const settings = response.headers.get("X-Compression-Settings");
+
+    return {
+      blob: await response.blob(),
+      applied: settings ? JSON.parse(settings) : undefined,
+    };
   };
 
   const compressSingleImage = async (imageFile: ImageFile) => {
@@ -177,7 +208,16 @@ export default function CompressPage() {
     );
 
     try {
-      const blob = await compressImage(imageFile.file, quality);
+      const { blob, applied } =
+        processingMode === "server"
+          ? await compressOnServer(imageFile.file)
+          : { blob: await compressImage(imageFile.file, quality) };
+
+      // Si la imagen se quitó mientras se comprimía no se crea la URL: nadie
+      // llegaría a revocarla.
+      if (!imageFilesRef.current.some((img) => img.id === imageFile.id)) {
+        return;
+      }
       const url = URL.createObjectURL(blob);
 
       setImageFiles((prev) =>
@@ -188,6 +228,7 @@ export default function CompressPage() {
                 status: "completed",
                 compressedUrl: url,
                 compressedSize: blob.size,
+                applied,
               }
             : img
         )
@@ -196,7 +237,12 @@ export default function CompressPage() {
       setImageFiles((prev) =>
         prev.map((img) =>
           img.id === imageFile.id
-            ? { ...img, status: "error", error: "Error al comprimir" }
+            ? {
+                ...img,
+                status: "error",
+                error:
+                  err instanceof ApiError ? err.message : "Error al comprimir",
+              }
             : img
         )
       );
@@ -211,13 +257,31 @@ export default function CompressPage() {
 
     setIsCompressing(true);
 
-    for (const imageFile of pendingImages) {
-      await compressSingleImage(imageFile);
-    }
+    await forEachConcurrent(
+      pendingImages,
+      getBatchConcurrency(processingMode),
+      compressSingleImage
+    );
 
     setIsCompressing(false);
   };
 
+  const getOutputName = (imageFile: ImageFile, blob: Blob) =>
+    buildFilename(
+      filenameTemplate,
+      {
+        name: getBaseName(imageFile.file.name),
+        ext: imageFile.applied
+          ? FILE_EXTENSIONS[imageFile.applied.format]
+          : getExtensionForMime(blob.type) ?? "jpg",
+        w: imageFile.applied?.width ?? imageFile.info?.width,
+        h: imageFile.applied?.height ?? imageFile.info?.height,
+        index: imageFiles.findIndex((img) => img.id === imageFile.id) + 1,
+        quality: imageFile.applied?.quality ?? Math.round(quality * 100),
+      },
+      blob
+    );
+
   const handleDownloadAll = async () => {
     const completedImages = imageFiles.filter(
       (img) => img.status === "completed" && img.compressedUrl
@@ -226,6 +290,7 @@ export default function CompressPage() {
     if (completedImages.length === 0) return;
 
     const zip = new JSZip();
+    const usedNames = new Set<string>();
 
     for (const imageFile of completedImages) {
       if (!imageFile.compressedUrl) continue;
@@ -233,12 +298,10 @@ export default function CompressPage() {
       try {
         const response = await fetch(imageFile.compressedUrl);
         const blob = await response.blob();
-        const originalName = imageFile.file.name
-          .split(".")
-          .slice(0, -1)
-          .join(".");
-        const ext = imageFile.file.name.split(".").pop();
-        const fileName = `${originalName}_compressed.${ext}`;
+        const fileName = uniqueFileName(
+          withFileName(imageFile.file, await getOutputName(imageFile, blob)),
+          usedNames
+        );
         zip.file(fileName, blob);
       } catch (error) {
         console.error(`Error al procesar ${imageFile.file.name}:`, error);
@@ -256,35 +319,28 @@ export default function CompressPage() {
     URL.revokeObjectURL(url);
   };
 
-  const handleDownload = (imageFile: ImageFile) => {
+  const handleDownload = async (imageFile: ImageFile) => {
     if (!imageFile.compressedUrl) return;
 
+    const blob = await (await fetch(imageFile.compressedUrl)).blob();
     const a = document.createElement("a");
     a.href = imageFile.compressedUrl;
-    const originalName = imageFile.file.name.split(".").slice(0, -1).join(".");
-    const ext = imageFile.file.name.split(".").pop();
-    a.download = `${originalName}_compressed.${ext}`;
+    a.download = await getOutputName(imageFile, blob);
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
   };
 
+  const revokeCompressedUrls = (matches: (img: ImageFile) => boolean) =>
+    revokeObjectUrls(imageFiles, (img) => img.compressedUrl, matches);
+
   const handleRemove = (id: string) => {
-    setImageFiles((prev) => {
-      const file = prev.find((img) => img.id === id);
-      if (file?.compressedUrl) {
-        URL.revokeObjectURL(file.compressedUrl);
-      }
-      return prev.filter((img) => img.id !== id);
-    });
+    revokeCompressedUrls((img) => img.id === id);
+    setImageFiles((prev) => prev.filter((img) => img.id !== id));
   };
 
   const handleClear = () => {
-    imageFiles.forEach((file) => {
-      if (file.compressedUrl) {
-        URL.revokeObjectURL(file.compressedUrl);
-      }
-    });
+    revokeCompressedUrls(() => true);
     setImageFiles([]);
   };
 
@@ -311,6 +367,8 @@ export default function CompressPage() {
       ? ((1 - totalCompressedSize / totalOriginalSize) * 100).toFixed(1)
       : "0";
 
+  const compareImage = imageFiles.find((img) => img.id === compareId);
+
   return (
     <div
       className="h-screen flex flex-col bg-gradient-to-br from-purple-50 via-blue-50 to-pink-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 p-3 sm:p-4 overflow-hidden"
@@ -419,6 +477,107 @@ export default function CompressPage() {
           </div>
         </div>
 
+        <div className="flex flex-wrap items-end gap-2 sm:gap-3 p-2 bg-gray-50 dark:bg-gray-700 rounded-lg">
+          <div>
+            <label className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+              Procesamiento
+            </label>
+            <div className="flex gap-1">
+              {(["client", "server"] as ProcessingMode[]).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setProcessingMode(mode)}
+                  className={`px-2 py-1 text-xs rounded transition-colors ${
+                    processingMode === mode
+                      ? "bg-purple-500 text-white"
+                      : "bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-500"
+                  }`}
+                >
+                  {mode === "client" ? "Navegador" : "Servidor"}
+                </button>
+              ))}
+            </div>
+          </div>
+          {processingMode === "server" && (
+            <>
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+                  Formato
+                </label>
+                <select
+                  value={serverFormat}
+                  onChange={(e) =>
+                    setServerFormat(e.target.value as CompressFormat)
+                  }
+                  className="px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                >
+                  {COMPRESS_FORMATS.map((format) => (
+                    <option key={format} value={format}>
+                      {COMPRESS_FORMAT_LABELS[format]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+                  Esfuerzo
+                </label>
+                <input
+                  type="number"
+                  min={COMPRESS_EFFORT_RANGE[0]}
+                  max={COMPRESS_EFFORT_RANGE[1]}
+                  value={effort}
+                  onChange={(e) =>
+                    setEffort(
+                      e.target.value === "" ? "" : parseInt(e.target.value)
+                    )
+                  }
+                  disabled={serverFormat === "jpg"}
+                  title="Más esfuerzo comprime mejor pero tarda más; JPG no lo usa"
+                  placeholder="Por defecto"
+                  className="w-24 px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-50"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+                  Lado máximo (px)
+                </label>
+                <input
+                  type="number"
+                  min={COMPRESS_MAX_DIMENSION_RANGE[0]}
+                  max={COMPRESS_MAX_DIMENSION_RANGE[1]}
+                  value={maxDimension}
+                  onChange={(e) =>
+                    setMaxDimension(
+                      e.target.value === "" ? "" : parseInt(e.target.value)
+                    )
+                  }
+                  placeholder="Sin límite"
+                  className="w-28 px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+                  Peso objetivo (KB)
+                </label>
+                <input
+                  type="number"
+                  min={COMPRESS_TARGET_BYTES_RANGE[0] / 1024}
+                  max={COMPRESS_TARGET_BYTES_RANGE[1] / 1024}
+                  value={targetKB}
+                  onChange={(e) =>
+                    setTargetKB(
+                      e.target.value === "" ? "" : parseFloat(e.target.value)
+                    )
+                  }
+                  placeholder="Sin objetivo"
+                  className="w-28 px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+              </div>
+            </>
+          )}
+        </div>
+
         <div
           onDragOver={handleDragOver}
           onDragLeave={handleDragLeave}
@@ -462,8 +621,14 @@ export default function CompressPage() {
           <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400">
             o clic para seleccionar / Ctrl+V
           </p>
+          <FolderPickerButton onSelect={handleImageSelect} />
         </div>
 
+        <RejectedFilesNotice
+          files={rejectedFiles}
+          onDismiss={() => setRejectedFiles([])}
+        />
+
         {imageFiles.length > 0 && (
           <>
             <div className="flex justify-between items-center gap-2">
@@ -503,6 +668,12 @@ export default function CompressPage() {
               </div>
             </div>
 
+            <FilenameTemplateInput
+              tool="compress"
+              value={filenameTemplate}
+              onChange={setFilenameTemplate}
+            />
+
             <div className="flex-1 overflow-y-auto space-y-2 pr-1">
               <AnimatePresence>
                 {imageFiles.map((imageFile) => (
@@ -555,13 +726,34 @@ export default function CompressPage() {
                         )}
                       </div>
 
+                      <Thumbnail
+                        file={imageFile.file}
+                        title={
+                          imageFile.compressedUrl
+                            ? "Comparar antes/después"
+                            : undefined
+                        }
+                        onClick={
+                          imageFile.compressedUrl
+                            ? () => setCompareId(imageFile.id)
+                            : undefined
+                        }
+                      />
+
                       <div className="flex-1 min-w-0">
                         <p className="text-xs sm:text-sm font-medium text-gray-800 dark:text-gray-200 truncate">
                           {imageFile.file.name}
                         </p>
+                        {imageFile.formatWarning && (
+                          <p className="text-xs text-amber-600 dark:text-amber-400 truncate">
+                            ⚠ {imageFile.formatWarning}
+                          </p>
+                        )}
                         <p className="text-xs text-gray-500 dark:text-gray-400">
                           Original:{" "}
                           {((imageFile.originalSize || 0) / 1024).toFixed(1)} KB
+                          {imageFile.info &&
+                            ` • ${describeImageInfo(imageFile.info)}`}
                           {imageFile.compressedSize && (
                             <>
                               {" • "}
@@ -580,6 +772,16 @@ export default function CompressPage() {
                             </>
                           )}
                         </p>
+                        {imageFile.applied && (
+                          <p className="text-xs text-purple-600 dark:text-purple-400">
+                            {describeAppliedCompression(imageFile.applied)}
+                          </p>
+                        )}
+                        {imageFile.status === "error" && imageFile.error && (
+                          <p className="text-xs text-red-600 dark:text-red-400 truncate">
+                            {imageFile.error}
+                          </p>
+                        )}
                       </div>
 
                       <div className="flex gap-1 flex-shrink-0">
@@ -614,6 +816,14 @@ export default function CompressPage() {
           </>
         )}
       </motion.div>
+
+      {compareImage?.compressedUrl && (
+        <CompareViewer
+          original={compareImage.file}
+          resultUrl={compareImage.compressedUrl}
+          onClose={() => setCompareId(null)}
+        />
+      )}
     </div>
   );
 }
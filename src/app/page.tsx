@@ -1,10 +1,76 @@
 "use client";
 
-import { useState, useRef, DragEvent, ClipboardEvent } from "react";
+import { useState, useRef, useEffect, DragEvent, ClipboardEvent } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import Link from "next/link";
+import JSZip from "jszip";
+import CompareViewer from "@/components/CompareViewer";
+import EncoderOptionsPanel from "@/components/EncoderOptionsPanel";
+import FilenameTemplateInput, {
+  useFilenameTemplate,
+} from "@/components/FilenameTemplateInput";
+import FolderPickerButton from "@/components/FolderPickerButton";
+import RejectedFilesNotice from "@/components/RejectedFilesNotice";
+import Thumbnail from "@/components/Thumbnail";
+import {
+  ApiError,
+  isServerBusyError,
+  isTransientError,
+  networkError,
+  readApiError,
+} from "@/lib/api-error";
+import {
+  ConversionEngine,
+  ENGINE_LABELS,
+  convertInBrowser,
+  getBrowserFormatSupport,
+} from "@/lib/browser-convert";
+import {
+  DEFAULT_ENCODER_OPTIONS,
+  EncoderOptions,
+  toEncoderFormat,
+} from "@/lib/encoder-options";
+import { ImageErrorCode } from "@/lib/errors";
+import { retryWhileBusy, retryWithBackoff } from "@/lib/fetch-with-retry";
+import {
+  BROWSER_FORMATS,
+  RejectedFile,
+  SNIFFED_FORMATS,
+  checkImageFiles,
+} from "@/lib/file-check";
+import { getDroppedFiles, withFileName } from "@/lib/folder-drop";
+import {
+  buildFilename,
+  getBaseName,
+  uniqueFileName,
+} from "@/lib/filename-template";
+import { ImageInfo, describeImageInfo, fetchImageInfo } from "@/lib/image-info";
+import {
+  ANIMATED_FORMATS,
+  FILE_EXTENSIONS,
+  FORMAT_LABELS,
+  IMAGE_FILE_ACCEPT,
+  OUTPUT_FORMATS,
+  OutputFormat,
+  normalizeFormat,
+} from "@/lib/image-formats";
+import {
+  DEFAULT_METADATA_MODE,
+  METADATA_MODES,
+  METADATA_MODE_LABELS,
+  METADATA_MODE_SHORT_LABELS,
+  MetadataMode,
+  parseMetadataMode,
+} from "@/lib/metadata-modes";
+import { revokeObjectUrls } from "@/lib/object-urls";
+import { SniffedFormat } from "@/lib/sniff";
+import { readStoredSetting, writeStoredSetting } from "@/lib/stored-settings";
+import { TransferProgress, postFormData } from "@/lib/xhr-request";
 
-type ImageFormat = "webp" | "png" | "jpg" | "jpeg" | "gif" | "tiff";
+type ImageFormat = OutputFormat;
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6, 8];
+const DEFAULT_CONCURRENCY = 3;
 
 interface ImageFile {
   file: File;
@@ -14,45 +80,154 @@ interface ImageFile {
   error?: string;
   originalFormat: string;
   targetFormat: ImageFormat;
+  encoderOptions: EncoderOptions;
+  metadataMode: MetadataMode;
+  appliedMetadataMode?: MetadataMode;
+  firstFrameOnly: boolean;
+  info?: ImageInfo;
+  showAdvanced?: boolean;
+  progress?: TransferProgress;
+  selected?: boolean;
+  formatWarning?: string;
+  engine?: ConversionEngine;
+  errorCode?: ImageErrorCode;
+  errorDetail?: string;
+}
+
+interface ConversionResult {
+  blob: Blob;
+  engine: ConversionEngine;
+  appliedMetadataMode?: MetadataMode;
 }
 
+const PRIVATE_MODE_KEY = "private-mode";
+
 export default function Home() {
   const [imageFiles, setImageFiles] = useState<ImageFile[]>([]);
   const [isDragging, setIsDragging] = useState(false);
+  const [formatSupport, setFormatSupport] = useState<Partial<
+    Record<ImageFormat, boolean>
+  > | null>(null);
+  const [inputSupport, setInputSupport] = useState<Partial<
+    Record<SniffedFormat, boolean>
+  > | null>(null);
+  const [browserSupport, setBrowserSupport] = useState<Partial<
+    Record<ImageFormat, boolean>
+  > | null>(null);
+  const [privateMode, setPrivateMode] = useState(false);
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [filenameTemplate, setFilenameTemplate] =
+    useFilenameTemplate("convert");
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [rejectedFiles, setRejectedFiles] = useState<RejectedFile[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const batchRef = useRef(0);
+  const queuedRef = useRef(new Set<string>());
+  // Copia del Set para que la lista se vuelva a pintar al entrar o salir de
+  // la cola; queuedRef sigue siendo la fuente para las comprobaciones.
+  const [queuedIds, setQueuedIds] = useState<ReadonlySet<string>>(new Set());
+  // Colas de los runPool en marcha, para poder sacar una imagen que espera.
+  const poolQueuesRef = useRef(new Set<string[]>());
+  const imageFilesRef = useRef(imageFiles);
 
-  const detectFormat = (filename: string): ImageFormat => {
-    const ext = filename.split(".").pop()?.toLowerCase() as ImageFormat;
-    return ext || "png";
+  useEffect(() => {
+    imageFilesRef.current = imageFiles;
+  }, [imageFiles]);
+
+  useEffect(() => {
+    fetch("/api/convert")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        setFormatSupport(data?.output ?? null);
+        setInputSupport(data?.input ?? null);
+      })
+      .catch(() => setFormatSupport(null));
+    setBrowserSupport(getBrowserFormatSupport());
+    setPrivateMode(readStoredSetting(PRIVATE_MODE_KEY) === "true");
+  }, []);
+
+  const handleChangePrivateMode = (enabled: boolean) => {
+    setPrivateMode(enabled);
+    writeStoredSetting(PRIVATE_MODE_KEY, String(enabled));
   };
 
+  const isFormatAvailable = (format: ImageFormat) =>
+    privateMode
+      ? browserSupport?.[format] !== false
+      : formatSupport?.[format] !== false || browserSupport?.[format] === true;
+
+  const browserMissingFormats = OUTPUT_FORMATS.filter(
+    (format) => browserSupport?.[format] === false
+  );
+
   const getTargetFormat = (originalFormat: string): ImageFormat => {
     const lowerFormat = originalFormat.toLowerCase();
     if (["jpg", "jpeg"].includes(lowerFormat)) return "png";
     if (lowerFormat === "png") return "jpg";
     if (lowerFormat === "webp") return "png";
+    if (lowerFormat === "heif") return "jpg";
     return "png";
   };
 
-  const handleImageSelect = (files: File[]) => {
-    const validFiles = Array.from(files).filter((file) =>
-      file.type.startsWith("image/")
-    );
+  // Se aceptan los formatos que sabe abrir quien va a convertir; sin respuesta
+  // del servidor no se descarta nada.
+  const acceptedInputs = privateMode
+    ? BROWSER_FORMATS
+    : SNIFFED_FORMATS.filter((format) => inputSupport?.[format] !== false);
 
-    if (validFiles.length === 0) return;
-
-    const newImageFiles: ImageFile[] = validFiles.map((file) => {
-      const originalFormat = detectFormat(file.name);
-      return {
-        file,
-        id: `${Date.now()}-${Math.random()}`,
-        status: "pending",
-        originalFormat,
-        targetFormat: getTargetFormat(originalFormat),
-      };
-    });
+  const handleImageSelect = async (files: File[]) => {
+    const { accepted, rejected } = await checkImageFiles(files, acceptedInputs);
+    setRejectedFiles(rejected);
+
+    if (accepted.length === 0) return;
+
+    const newImageFiles: ImageFile[] = accepted.map(
+      ({ file, format, warning }) => {
+        const originalFormat = normalizeFormat(format) ?? format;
+        return {
+          file,
+          id: `${Date.now()}-${Math.random()}`,
+          status: "pending",
+          originalFormat,
+          targetFormat: getTargetFormat(originalFormat),
+          encoderOptions: {},
+          metadataMode: DEFAULT_METADATA_MODE,
+          firstFrameOnly: false,
+          formatWarning: warning,
+        };
+      }
+    );
 
     setImageFiles((prev) => [...prev, ...newImageFiles]);
+    newImageFiles.forEach(loadImageInfo);
+  };
+
+  const loadImageInfo = async (imageFile: ImageFile) => {
+    if (privateMode) return;
+
+    const info = await fetchImageInfo(imageFile.file);
+    if (!info) return;
+
+    const realFormat = normalizeFormat(info.format) ?? info.format;
+
+    setImageFiles((prev) =>
+      prev.map((img) => {
+        if (img.id !== imageFile.id) return img;
+        const keepsDefaultTarget =
+          img.status === "pending" &&
+          img.targetFormat === getTargetFormat(img.originalFormat);
+        return {
+          ...img,
+          info,
+          originalFormat: realFormat,
+          targetFormat: keepsDefaultTarget
+            ? getTargetFormat(realFormat)
+            : img.targetFormat,
+          encoderOptions: keepsDefaultTarget ? {} : img.encoderOptions,
+        };
+      })
+    );
   };
 
   const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
@@ -65,11 +240,11 @@ export default function Home() {
     setIsDragging(false);
   };
 
-  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+  const handleDrop = async (e: DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragging(false);
 
-    const files = Array.from(e.dataTransfer.files);
+    const files = await getDroppedFiles(e.dataTransfer);
     handleImageSelect(files);
   };
 
@@ -96,78 +271,369 @@ export default function Home() {
     }
   };
 
+  const convertOnServer = async (
+    imageFile: ImageFile,
+    signal: AbortSignal
+  ): Promise<ConversionResult> => {
+    const formData = new FormData();
+    formData.append("image", imageFile.file);
+    formData.append("format", imageFile.targetFormat);
+    formData.append("metadata", imageFile.metadataMode);
+    if (ANIMATED_FORMATS.includes(imageFile.targetFormat)) {
+      formData.append("firstFrameOnly", String(imageFile.firstFrameOnly));
+    }
+    Object.entries(imageFile.encoderOptions).forEach(([key, value]) => {
+      if (value !== undefined) formData.append(key, String(value));
+    });
+
+    let response: Response;
+    try {
+      response = await retryWhileBusy(
+        () =>
+          postFormData("/api/convert", formData, {
+            signal,
+            onProgress: (progress) =>
+              setImageFiles((prev) =>
+                prev.map((img) =>
+                  img.id === imageFile.id ? { ...img, progress } : img
+                )
+              ),
+          }),
+        signal
+      );
+    } catch (error) {
+      if (signal.aborted) throw error;
+      throw networkError();
+    }
+
+    if (!response.ok) {
+      throw await readApiError(response, "Error al convertir la imagen");
+    }
+
+    return {
+      blob: await response.blob(),
+      engine: "server",
+      appliedMetadataMode:
+        parseMetadataMode(response.headers.get("X-Metadata-Mode") ?? "") ??
+        undefined,
+    };
+  };
+
+  // El navegador descarta todos los metadatos y solo conserva el primer
+  // fotograma.
+  const convertWithBrowser = async (
+    imageFile: ImageFile
+  ): Promise<ConversionResult> => ({
+    blob: await convertInBrowser(
+      imageFile.file,
+      imageFile.targetFormat,
+      imageFile.encoderOptions
+    ),
+    engine: "browser",
+    appliedMetadataMode: "strip",
+  });
+
+  // Se recurre al navegador, si sabe generar el formato pedido, cuando no hay
+  // servidor (sin red o exportación estática), sigue caído u ocupado tras los
+  // reintentos o no admite el formato. Un fallo al procesar la imagen no: el
+  // navegador fallaría igual y se perdería el motivo.
+  const convertWithFallback = async (
+    imageFile: ImageFile,
+    signal: AbortSignal
+  ): Promise<ConversionResult> => {
+    if (privateMode) return convertWithBrowser(imageFile);
+
+    try {
+      return await retryWithBackoff(
+        () => convertOnServer(imageFile, signal),
+        isTransientError,
+        { signal }
+      );
+    } catch (error) {
+      const serverUnavailable =
+        error instanceof ApiError &&
+        (error.status === 404 ||
+          error.status === 405 ||
+          isTransientError(error) ||
+          isServerBusyError(error) ||
+          error.code === "UNSUPPORTED_OUTPUT");
+      if (
+        signal.aborted ||
+        !serverUnavailable ||
+        !browserSupport?.[imageFile.targetFormat]
+      ) {
+        throw error;
+      }
+      return convertWithBrowser(imageFile);
+    }
+  };
+
   const convertSingleImage = async (imageFile: ImageFile) => {
+    const controller = new AbortController();
+    controllersRef.current.set(imageFile.id, controller);
+
     setImageFiles((prev) =>
       prev.map((img) =>
-        img.id === imageFile.id ? { ...img, status: "converting" } : img
+        img.id === imageFile.id
+          ? {
+              ...img,
+              status: "converting",
+              progress: undefined,
+              error: undefined,
+              errorCode: undefined,
+              errorDetail: undefined,
+            }
+          : img
       )
     );
 
     try {
-      const formData = new FormData();
-      formData.append("image", imageFile.file);
-      formData.append("format", imageFile.targetFormat);
-
-      const response = await fetch("/api/convert", {
-        method: "POST",
-        body: formData,
-      });
+      const result = await convertWithFallback(imageFile, controller.signal);
+      if (controller.signal.aborted) throw controller.signal.reason;
 
-      if (!response.ok) {
-        throw new Error("Error al convertir la imagen");
-      }
-
-      const blob = await response.blob();
-      const url = URL.createObjectURL(blob);
+      const url = URL.createObjectURL(result.blob);
 
       setImageFiles((prev) =>
         prev.map((img) =>
           img.id === imageFile.id
-            ? { ...img, status: "completed", convertedUrl: url }
+            ? {
+                ...img,
+                status: "completed",
+                convertedUrl: url,
+                appliedMetadataMode: result.appliedMetadataMode,
+                engine: result.engine,
+                progress: undefined,
+              }
             : img
         )
       );
     } catch (err) {
+      if (controller.signal.aborted) {
+        setImageFiles((prev) =>
+          prev.map((img) =>
+            img.id === imageFile.id
+              ? { ...img, status: "pending", progress: undefined }
+              : img
+          )
+        );
+        return;
+      }
+
       setImageFiles((prev) =>
         prev.map((img) =>
           img.id === imageFile.id
-            ? { ...img, status: "error", error: "Error al convertir" }
+            ? {
+                ...img,
+                status: "error",
+                error:
+                  err instanceof Error && err.message
+                    ? err.message
+                    : "Error al convertir",
+                errorCode: err instanceof ApiError ? err.code : undefined,
+                errorDetail: err instanceof ApiError ? err.detail : undefined,
+                progress: undefined,
+              }
             : img
         )
       );
       console.error(err);
+    } finally {
+      controllersRef.current.delete(imageFile.id);
     }
   };
 
-  const handleConvertAll = async () => {
-    const pendingImages = imageFiles.filter((img) => img.status === "pending");
+  const runPool = async (images: ImageFile[]) => {
+    const batch = batchRef.current;
+    const queue = images
+      .map((img) => img.id)
+      .filter((id) => !queuedRef.current.has(id));
+    queue.forEach((id) => queuedRef.current.add(id));
+    setQueuedIds(new Set(queuedRef.current));
+    poolQueuesRef.current.add(queue);
 
-    for (const imageFile of pendingImages) {
-      await convertSingleImage(imageFile);
+    const worker = async () => {
+      let id: string | undefined;
+      while ((id = queue.shift())) {
+        // Se convierte el estado actual, no el del momento de encolar: la
+        // imagen puede haberse quitado mientras esperaba.
+        const current = imageFilesRef.current.find((img) => img.id === id);
+        if (current && batchRef.current === batch) {
+          await convertSingleImage(current);
+        }
+        queuedRef.current.delete(id);
+        setQueuedIds(new Set(queuedRef.current));
+      }
+    };
+
+    try {
+      await Promise.all(
+        Array.from({ length: Math.min(concurrency, queue.length) }, worker)
+      );
+    } finally {
+      poolQueuesRef.current.delete(queue);
     }
   };
 
-  const handleDownload = (imageFile: ImageFile) => {
+  const handleConvertAll = () =>
+    runPool(imageFiles.filter((img) => img.status === "pending"));
+
+  const handleRetryFailed = () => {
+    const failed = imageFiles.filter((img) => img.status === "error");
+    setImageFiles((prev) =>
+      prev.map((img) =>
+        img.status === "error"
+          ? { ...img, status: "pending", error: undefined }
+          : img
+      )
+    );
+    return runPool(failed);
+  };
+
+  // Si aún espera en la cola se saca de ella; si ya se está convirtiendo se
+  // aborta y convertSingleImage la devuelve a pendiente.
+  const handleCancel = (id: string) => {
+    poolQueuesRef.current.forEach((queue) => {
+      const index = queue.indexOf(id);
+      if (index === -1) return;
+      queue.splice(index, 1);
+      queuedRef.current.delete(id);
+      setQueuedIds(new Set(queuedRef.current));
+    });
+    controllersRef.current.get(id)?.abort();
+  };
+
+  const handleCancelAll = () => {
+    batchRef.current++;
+    controllersRef.current.forEach((controller) => controller.abort());
+  };
+
+  const getOutputName = (imageFile: ImageFile, blob: Blob) =>
+    buildFilename(
+      filenameTemplate,
+      {
+        name: getBaseName(imageFile.file.name),
+        ext: FILE_EXTENSIONS[imageFile.targetFormat],
+        w: imageFile.info?.width,
+        h: imageFile.info?.height,
+        index: imageFiles.findIndex((img) => img.id === imageFile.id) + 1,
+        quality:
+          imageFile.encoderOptions.quality ??
+          DEFAULT_ENCODER_OPTIONS[toEncoderFormat(imageFile.targetFormat)!]
+            .quality,
+      },
+      blob
+    );
+
+  const handleDownload = async (imageFile: ImageFile) => {
     if (!imageFile.convertedUrl) return;
 
+    const blob = await (await fetch(imageFile.convertedUrl)).blob();
     const a = document.createElement("a");
     a.href = imageFile.convertedUrl;
-    const originalName = imageFile.file.name.split(".").slice(0, -1).join(".");
-    a.download = `${originalName}.${imageFile.targetFormat}`;
+    a.download = await getOutputName(imageFile, blob);
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
   };
 
+  const handleDownloadAll = async () => {
+    const completedImages = imageFiles.filter(
+      (img) => img.status === "completed" && img.convertedUrl
+    );
+
+    if (completedImages.length === 0) return;
+
+    const zip = new JSZip();
+    const usedNames = new Set<string>();
+
+    for (const imageFile of completedImages) {
+      if (!imageFile.convertedUrl) continue;
+
+      try {
+        const response = await fetch(imageFile.convertedUrl);
+        const blob = await response.blob();
+        const fileName = uniqueFileName(
+          withFileName(imageFile.file, await getOutputName(imageFile, blob)),
+          usedNames
+        );
+        zip.file(fileName, blob);
+      } catch (error) {
+        console.error(`Error al procesar ${imageFile.file.name}:`, error);
+      }
+    }
+
+    const zipBlob = await zip.generateAsync({ type: "blob" });
+    const url = URL.createObjectURL(zipBlob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `imagenes_convertidas_${Date.now()}.zip`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const revokeConvertedUrls = (matches: (img: ImageFile) => boolean) =>
+    revokeObjectUrls(imageFiles, (img) => img.convertedUrl, matches);
+
+  const handleRemoveCompleted = () => {
+    revokeConvertedUrls((img) => img.status === "completed");
+    setImageFiles((prev) => prev.filter((img) => img.status !== "completed"));
+  };
+
+  const handleToggleSelected = (id: string) => {
+    setImageFiles((prev) =>
+      prev.map((img) =>
+        img.id === id ? { ...img, selected: !img.selected } : img
+      )
+    );
+  };
+
+  const handleSelectAll = (selected: boolean) => {
+    setImageFiles((prev) => prev.map((img) => ({ ...img, selected })));
+  };
+
+  const handleBulkChangeFormat = (format: ImageFormat) => {
+    const onlySelected = imageFiles.some((img) => img.selected);
+    revokeConvertedUrls(
+      (img) =>
+        img.status !== "converting" &&
+        !queuedRef.current.has(img.id) &&
+        (!onlySelected || !!img.selected)
+    );
+    setImageFiles((prev) =>
+      prev.map((img) =>
+        img.status !== "converting" &&
+        !queuedRef.current.has(img.id) &&
+        (!onlySelected || img.selected)
+          ? {
+              ...img,
+              targetFormat: format,
+              status: "pending",
+              convertedUrl: undefined,
+              error: undefined,
+              encoderOptions: {},
+            }
+          : img
+      )
+    );
+  };
+
   const handleRemove = (id: string) => {
+    handleCancel(id);
+    revokeConvertedUrls((img) => img.id === id);
     setImageFiles((prev) => prev.filter((img) => img.id !== id));
   };
 
   const handleClear = () => {
+    handleCancelAll();
+    revokeConvertedUrls(() => true);
     setImageFiles([]);
   };
 
   const handleChangeFormat = (id: string, format: ImageFormat) => {
+    if (queuedRef.current.has(id)) return;
+    revokeConvertedUrls((img) => img.id === id);
     setImageFiles((prev) =>
       prev.map((img) =>
         img.id === id
@@ -176,15 +642,97 @@ export default function Home() {
               targetFormat: format,
               status: "pending",
               convertedUrl: undefined,
+              encoderOptions: {},
+            }
+          : img
+      )
+    );
+  };
+
+  const handleChangeEncoderOptions = (id: string, options: EncoderOptions) => {
+    if (queuedRef.current.has(id)) return;
+    revokeConvertedUrls((img) => img.id === id);
+    setImageFiles((prev) =>
+      prev.map((img) =>
+        img.id === id
+          ? {
+              ...img,
+              encoderOptions: options,
+              status: "pending",
+              convertedUrl: undefined,
+            }
+          : img
+      )
+    );
+  };
+
+  const handleChangeMetadataMode = (id: string, mode: MetadataMode) => {
+    if (queuedRef.current.has(id)) return;
+    revokeConvertedUrls((img) => img.id === id);
+    setImageFiles((prev) =>
+      prev.map((img) =>
+        img.id === id
+          ? {
+              ...img,
+              metadataMode: mode,
+              status: "pending",
+              convertedUrl: undefined,
+            }
+          : img
+      )
+    );
+  };
+
+  const handleChangeFirstFrameOnly = (id: string, firstFrameOnly: boolean) => {
+    if (queuedRef.current.has(id)) return;
+    revokeConvertedUrls((img) => img.id === id);
+    setImageFiles((prev) =>
+      prev.map((img) =>
+        img.id === id
+          ? {
+              ...img,
+              firstFrameOnly,
+              status: "pending",
+              convertedUrl: undefined,
             }
           : img
       )
     );
   };
 
+  const handleToggleAdvanced = (id: string) => {
+    setImageFiles((prev) =>
+      prev.map((img) =>
+        img.id === id ? { ...img, showAdvanced: !img.showAdvanced } : img
+      )
+    );
+  };
+
   const pendingCount = imageFiles.filter(
     (img) => img.status === "pending"
   ).length;
+  const convertingCount = imageFiles.filter(
+    (img) => img.status === "converting"
+  ).length;
+  const completedCount = imageFiles.filter(
+    (img) => img.status === "completed"
+  ).length;
+  const errorCount = imageFiles.filter((img) => img.status === "error").length;
+  const selectedCount = imageFiles.filter((img) => img.selected).length;
+
+  const describeProgress = (progress?: TransferProgress) => {
+    if (!progress) return "Procesando…";
+    const percent =
+      progress.total > 0
+        ? ` ${Math.round((progress.loaded / progress.total) * 100)}%`
+        : "";
+    if (progress.phase === "download") return `Descargando${percent}`;
+    return progress.total > 0 && progress.loaded >= progress.total
+      ? "Procesando…"
+      : `Subiendo${percent}`;
+  };
+
+  const compareImage = imageFiles.find((img) => img.id === compareId);
 
   return (
     <div
@@ -260,7 +808,7 @@ export default function Home() {
           <input
             ref={fileInputRef}
             type="file"
-            accept="image/*"
+            accept={IMAGE_FILE_ACCEPT}
             multiple
             onChange={handleFileInputChange}
             className="hidden"
@@ -285,15 +833,55 @@ export default function Home() {
           <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400">
             o clic para seleccionar / Ctrl+V (sin límite)
           </p>
+          <FolderPickerButton onSelect={handleImageSelect} />
         </div>
 
+        <RejectedFilesNotice
+          files={rejectedFiles}
+          onDismiss={() => setRejectedFiles([])}
+        />
+
         {imageFiles.length > 0 && (
           <>
             <div className="flex justify-between items-center gap-2">
               <span className="text-xs sm:text-sm text-gray-600 dark:text-gray-300">
                 {imageFiles.length} imagen{imageFiles.length !== 1 ? "es" : ""}
               </span>
-              <div className="flex gap-2">
+              <div className="flex gap-2 items-center">
+                <label
+                  title="Las imágenes nunca salen del navegador; se convierten con códecs WebAssembly y no se puede generar HEIF"
+                  className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-300"
+                >
+                  <input
+                    type="checkbox"
+                    checked={privateMode}
+                    onChange={(e) => handleChangePrivateMode(e.target.checked)}
+                    className="rounded"
+                  />
+                  Modo privado
+                </label>
+                <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-300">
+                  Simultáneas
+                  <select
+                    value={concurrency}
+                    onChange={(e) => setConcurrency(Number(e.target.value))}
+                    className="px-1 py-0.5 text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  >
+                    {CONCURRENCY_OPTIONS.map((value) => (
+                      <option key={value} value={value}>
+                        {value}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                {convertingCount > 0 && (
+                  <button
+                    onClick={handleCancelAll}
+                    className="px-3 py-1.5 bg-gray-500 hover:bg-gray-600 text-white font-semibold text-xs sm:text-sm rounded-lg transition-all duration-200"
+                  >
+                    Cancelar ({convertingCount})
+                  </button>
+                )}
                 {pendingCount > 0 && (
                   <motion.button
                     whileHover={{ scale: 1.02 }}
@@ -304,6 +892,16 @@ export default function Home() {
                     Convertir todas ({pendingCount})
                   </motion.button>
                 )}
+                {completedCount > 0 && (
+                  <motion.button
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    onClick={handleDownloadAll}
+                    className="px-3 py-1.5 bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white font-semibold text-xs sm:text-sm rounded-lg shadow-lg transition-all duration-200"
+                  >
+                    Descargar todas ({completedCount})
+                  </motion.button>
+                )}
                 <button
                   onClick={handleClear}
                   className="px-3 py-1.5 bg-red-500 hover:bg-red-600 text-white font-semibold text-xs sm:text-sm rounded-lg transition-all duration-200"
@@ -313,6 +911,76 @@ export default function Home() {
               </div>
             </div>
 
+            {privateMode && browserMissingFormats.length > 0 && (
+              <p className="text-xs text-amber-600 dark:text-amber-400">
+                Modo privado: este navegador no puede generar{" "}
+                {browserMissingFormats
+                  .map((format) => FORMAT_LABELS[format])
+                  .join(", ")}
+                . Desactívalo para convertir a esos formatos en el servidor.
+              </p>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600 dark:text-gray-300">
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={selectedCount === imageFiles.length}
+                  onChange={(e) => handleSelectAll(e.target.checked)}
+                  className="rounded"
+                />
+                {selectedCount > 0
+                  ? `${selectedCount} seleccionada${
+                      selectedCount !== 1 ? "s" : ""
+                    }`
+                  : "Seleccionar todas"}
+              </label>
+              <select
+                value=""
+                onChange={(e) =>
+                  handleBulkChangeFormat(e.target.value as ImageFormat)
+                }
+                className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              >
+                <option value="" disabled>
+                  {selectedCount > 0
+                    ? "Formato de las seleccionadas…"
+                    : "Formato de todas…"}
+                </option>
+                {OUTPUT_FORMATS.map((format) => (
+                  <option
+                    key={format}
+                    value={format}
+                    disabled={!isFormatAvailable(format)}
+                  >
+                    {FORMAT_LABELS[format]}
+                  </option>
+                ))}
+              </select>
+              {errorCount > 0 && (
+                <button
+                  onClick={handleRetryFailed}
+                  className="px-2 py-1 bg-orange-500 hover:bg-orange-600 text-white rounded transition-all duration-200"
+                >
+                  Reintentar fallidas ({errorCount})
+                </button>
+              )}
+              {completedCount > 0 && (
+                <button
+                  onClick={handleRemoveCompleted}
+                  className="px-2 py-1 bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500 text-gray-700 dark:text-gray-200 rounded transition-all duration-200"
+                >
+                  Quitar completadas ({completedCount})
+                </button>
+              )}
+            </div>
+
+            <FilenameTemplateInput
+              tool="convert"
+              value={filenameTemplate}
+              onChange={setFilenameTemplate}
+            />
+
             <div className="flex-1 overflow-y-auto space-y-2 pr-1">
               <AnimatePresence>
                 {imageFiles.map((imageFile) => (
@@ -324,6 +992,12 @@ export default function Home() {
                     className="bg-gray-50 dark:bg-gray-700 rounded-lg p-2 sm:p-3"
                   >
                     <div className="flex items-center gap-2 sm:gap-3">
+                      <input
+                        type="checkbox"
+                        checked={!!imageFile.selected}
+                        onChange={() => handleToggleSelected(imageFile.id)}
+                        className="rounded flex-shrink-0"
+                      />
                       <div className="flex-shrink-0">
                         {imageFile.status === "pending" && (
                           <div className="w-8 h-8 rounded-full bg-gray-300 dark:bg-gray-600 flex items-center justify-center">
@@ -365,13 +1039,80 @@ export default function Home() {
                         )}
                       </div>
 
+                      <Thumbnail
+                        file={imageFile.file}
+                        title={
+                          imageFile.convertedUrl
+                            ? "Comparar antes/después"
+                            : undefined
+                        }
+                        onClick={
+                          imageFile.convertedUrl
+                            ? () => setCompareId(imageFile.id)
+                            : undefined
+                        }
+                      />
+
                       <div className="flex-1 min-w-0">
                         <p className="text-xs sm:text-sm font-medium text-gray-800 dark:text-gray-200 truncate">
                           {imageFile.file.name}
                         </p>
+                        {imageFile.formatWarning && (
+                          <p className="text-xs text-amber-600 dark:text-amber-400 truncate">
+                            ⚠ {imageFile.formatWarning}
+                          </p>
+                        )}
+                        {imageFile.status === "error" && imageFile.error && (
+                          <p
+                            title={imageFile.errorDetail}
+                            className="text-xs text-red-600 dark:text-red-400 truncate"
+                          >
+                            {imageFile.error}
+                            {imageFile.errorCode && ` (${imageFile.errorCode})`}
+                            {imageFile.errorDetail &&
+                              ` • ${imageFile.errorDetail}`}
+                          </p>
+                        )}
                         <p className="text-xs text-gray-500 dark:text-gray-400">
                           {(imageFile.file.size / 1024).toFixed(1)} KB
+                          {imageFile.info &&
+                            ` • ${describeImageInfo(imageFile.info)}`}
+                          {imageFile.status === "completed" &&
+                            imageFile.engine &&
+                            ` • ${ENGINE_LABELS[imageFile.engine]}`}
+                          {imageFile.status === "completed" &&
+                            imageFile.appliedMetadataMode &&
+                            ` • ${
+                              METADATA_MODE_SHORT_LABELS[
+                                imageFile.appliedMetadataMode
+                              ]
+                            }`}
                         </p>
+                        {imageFile.status === "converting" && (
+                          <div className="mt-1 flex items-center gap-2">
+                            <div className="flex-1 h-1.5 rounded bg-gray-200 dark:bg-gray-600 overflow-hidden">
+                              <div
+                                className={`h-full bg-purple-500 transition-all duration-200 ${
+                                  imageFile.progress?.total
+                                    ? ""
+                                    : "animate-pulse"
+                                }`}
+                                style={{
+                                  width: imageFile.progress?.total
+                                    ? `${
+                                        (imageFile.progress.loaded /
+                                          imageFile.progress.total) *
+                                        100
+                                      }%`
+                                    : "100%",
+                                }}
+                              />
+                            </div>
+                            <span className="text-[10px] text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                              {describeProgress(imageFile.progress)}
+                            </span>
+                          </div>
+                        )}
                       </div>
 
                       <div className="flex items-center gap-1 sm:gap-2 flex-shrink-0">
@@ -387,24 +1128,55 @@ export default function Home() {
                               e.target.value as ImageFormat
                             )
                           }
-                          disabled={imageFile.status !== "pending"}
+                          disabled={
+                            imageFile.status !== "pending" ||
+                            queuedIds.has(imageFile.id)
+                          }
                           className="text-xs font-semibold px-1 py-0.5 rounded bg-purple-100 dark:bg-purple-900 text-purple-700 dark:text-purple-300 border-none uppercase disabled:opacity-50"
                         >
-                          <option value="png">PNG</option>
-                          <option value="jpg">JPG</option>
-                          <option value="webp">WEBP</option>
-                          <option value="gif">GIF</option>
-                          <option value="tiff">TIFF</option>
+                          {OUTPUT_FORMATS.map((format) => (
+                            <option
+                              key={format}
+                              value={format}
+                              disabled={!isFormatAvailable(format)}
+                            >
+                              {FORMAT_LABELS[format]}
+                              {!isFormatAvailable(format) && " (no disponible)"}
+                            </option>
+                          ))}
                         </select>
+                        <button
+                          onClick={() => handleToggleAdvanced(imageFile.id)}
+                          title="Opciones avanzadas"
+                          className={`px-1.5 py-0.5 text-xs rounded transition-all duration-200 ${
+                            imageFile.showAdvanced
+                              ? "bg-purple-500 text-white"
+                              : "bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-500"
+                          }`}
+                        >
+                          ⚙
+                        </button>
                       </div>
 
                       <div className="flex gap-1 flex-shrink-0">
                         {imageFile.status === "pending" && (
                           <button
                             onClick={() => convertSingleImage(imageFile)}
-                            className="px-2 py-1 bg-purple-500 hover:bg-purple-600 text-white text-xs rounded transition-all duration-200"
+                            disabled={queuedIds.has(imageFile.id)}
+                            className="px-2 py-1 bg-purple-500 enabled:hover:bg-purple-600 text-white text-xs rounded transition-all duration-200 disabled:opacity-50"
+                          >
+                            {queuedIds.has(imageFile.id)
+                              ? "En cola"
+                              : "Convertir"}
+                          </button>
+                        )}
+                        {(imageFile.status === "converting" ||
+                          queuedIds.has(imageFile.id)) && (
+                          <button
+                            onClick={() => handleCancel(imageFile.id)}
+                            className="px-2 py-1 bg-gray-500 hover:bg-gray-600 text-white text-xs rounded transition-all duration-200"
                           >
-                            Convertir
+                            Cancelar
                           </button>
                         )}
                         {imageFile.status === "completed" && (
@@ -415,6 +1187,14 @@ export default function Home() {
                             Descargar
                           </button>
                         )}
+                        {imageFile.status === "error" && (
+                          <button
+                            onClick={() => convertSingleImage(imageFile)}
+                            className="px-2 py-1 bg-orange-500 hover:bg-orange-600 text-white text-xs rounded transition-all duration-200"
+                          >
+                            Reintentar
+                          </button>
+                        )}
                         <button
                           onClick={() => handleRemove(imageFile.id)}
                           className="px-2 py-1 bg-red-500 hover:bg-red-600 text-white text-xs rounded transition-all duration-200"
@@ -423,6 +1203,72 @@ export default function Home() {
                         </button>
                       </div>
                     </div>
+                    {imageFile.showAdvanced && (
+                      <div className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-600 space-y-2">
+                        <div>
+                          <label className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+                            Metadatos
+                          </label>
+                          <select
+                            value={imageFile.metadataMode}
+                            onChange={(e) =>
+                              handleChangeMetadataMode(
+                                imageFile.id,
+                                e.target.value as MetadataMode
+                              )
+                            }
+                            disabled={
+                              imageFile.status === "converting" ||
+                              queuedIds.has(imageFile.id)
+                            }
+                            className="w-full sm:w-auto px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-50"
+                          >
+                            {METADATA_MODES.map((mode) => (
+                              <option key={mode} value={mode}>
+                                {METADATA_MODE_LABELS[mode]}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        {ANIMATED_FORMATS.includes(imageFile.targetFormat) && (
+                          <div className="flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              id={`firstFrame-${imageFile.id}`}
+                              checked={imageFile.firstFrameOnly}
+                              onChange={(e) =>
+                                handleChangeFirstFrameOnly(
+                                  imageFile.id,
+                                  e.target.checked
+                                )
+                              }
+                              disabled={
+                                imageFile.status === "converting" ||
+                                queuedIds.has(imageFile.id)
+                              }
+                              className="rounded"
+                            />
+                            <label
+                              htmlFor={`firstFrame-${imageFile.id}`}
+                              className="text-xs text-gray-700 dark:text-gray-300"
+                            >
+                              Solo primer fotograma (imagen fija)
+                            </label>
+                          </div>
+                        )}
+                        <EncoderOptionsPanel
+                          format={toEncoderFormat(imageFile.targetFormat)!}
+                          options={imageFile.encoderOptions}
+                          disabled={
+                            imageFile.status === "converting" ||
+                            queuedIds.has(imageFile.id)
+                          }
+                          onChange={(options) =>
+                            handleChangeEncoderOptions(imageFile.id, options)
+                          }
+                        />
+                      </div>
+                    )}
                   </motion.div>
                 ))}
               </AnimatePresence>
@@ -430,6 +1276,14 @@ export default function Home() {
           </>
         )}
       </motion.div>
+
+      {compareImage?.convertedUrl && (
+        <CompareViewer
+          original={compareImage.file}
+          resultUrl={compareImage.convertedUrl}
+          onClose={() => setCompareId(null)}
+        />
+      )}
     </div>
   );
 }
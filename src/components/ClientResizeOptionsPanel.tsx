@@ -0,0 +1,230 @@
+"use client";
+
+import {
+  CLIENT_RESIZE_MODES,
+  CLIENT_RESIZE_MODE_LABELS,
+  ClientResizeMode,
+  ClientResizeOptions,
+  RESIZE_ANCHORS,
+} from "@/lib/client-resize";
+import {
+  RESAMPLE_ALGORITHMS,
+  RESAMPLE_ALGORITHM_LABELS,
+  ResampleAlgorithm,
+} from "@/lib/resample";
+import { RESIZE_POSITION_LABELS } from "@/lib/resize-options";
+
+interface ClientResizeOptionsPanelProps {
+  options: ClientResizeOptions;
+  onChange: (options: ClientResizeOptions) => void;
+}
+
+export default function ClientResizeOptionsPanel({
+  options,
+  onChange,
+}: ClientResizeOptionsPanelProps) {
+  const setOption = (patch: Partial<ClientResizeOptions>) =>
+    onChange({ ...options, ...patch });
+
+  return (
+    <>
+      <div>
+        <label className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+          Modo
+        </label>
+        <select
+          value={options.mode}
+          onChange={(e) =>
+            setOption({ mode: e.target.value as ClientResizeMode })
+          }
+          className="px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+        >
+          {CLIENT_RESIZE_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {CLIENT_RESIZE_MODE_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+      </div>
+      {options.mode === "percentage" && (
+        <div>
+          <label className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+            Escala (%)
+          </label>
+          <input
+            type="number"
+            min="1"
+            max="1000"
+            value={options.percentage}
+            onChange={(e) =>
+              setOption({
+                percentage: Math.max(1, Number(e.target.value) || 1),
+              })
+            }
+            className="w-20 px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+          />
+        </div>
+      )}
+      {(options.mode === "longest" || options.mode === "shortest") && (
+        <div>
+          <label className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+            Lado (px)
+          </label>
+          <input
+            type="number"
+            min="1"
+            value={options.edge}
+            onChange={(e) =>
+              setOption({ edge: Math.max(1, Number(e.target.value) || 1) })
+            }
+            className="w-20 px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+          />
+        </div>
+      )}
+      {(options.mode === "cover" || options.mode === "contain") && (
+        <div>
+          <label className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+            Anclaje
+          </label>
+          <div className="grid grid-cols-3 gap-0.5 w-fit">
+            {RESIZE_ANCHORS.map((anchor) => (
+              <button
+                key={anchor}
+                title={RESIZE_POSITION_LABELS[anchor]}
+                onClick={() => setOption({ anchor })}
+                className={`w-4 h-4 rounded-sm transition-colors ${
+                  options.anchor === anchor
+                    ? "bg-purple-500"
+                    : "bg-gray-300 dark:bg-gray-500 hover:bg-gray-400"
+                }`}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+      {options.mode === "contain" && (
+        <div>
+          <label className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+            Relleno
+          </label>
+          <div className="flex items-center gap-1">
+            <input
+              type="color"
+              value={
+                options.background === "transparent"
+                  ? "#ffffff"
+                  : options.background
+              }
+              onChange={(e) => setOption({ background: e.target.value })}
+              disabled={options.background === "transparent"}
+              className="w-8 h-6 rounded disabled:opacity-50"
+            />
+            <input
+              type="checkbox"
+              id="transparentPadding"
+              checked={options.background === "transparent"}
+              onChange={(e) =>
+                setOption({
+                  background: e.target.checked ? "transparent" : "#ffffff",
+                })
+              }
+              className="rounded"
+            />
+            <label
+              htmlFor="transparentPadding"
+              className="text-xs text-gray-700 dark:text-gray-300"
+            >
+              Transparente
+            </label>
+          </div>
+        </div>
+      )}
+      <div>
+        <label className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+          Algoritmo
+        </label>
+        <select
+          value={options.algorithm}
+          onChange={(e) =>
+            setOption({ algorithm: e.target.value as ResampleAlgorithm })
+          }
+          className="px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+        >
+          {RESAMPLE_ALGORITHMS.map((algorithm) => (
+            <option key={algorithm} value={algorithm}>
+              {RESAMPLE_ALGORITHM_LABELS[algorithm]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <div className="flex items-center gap-2 mb-1">
+          <input
+            type="checkbox"
+            id="clientSharpen"
+            checked={options.sharpen}
+            onChange={(e) => setOption({ sharpen: e.target.checked })}
+            className="rounded"
+          />
+          <label
+            htmlFor="clientSharpen"
+            className="text-xs font-semibold text-gray-700 dark:text-gray-300"
+          >
+            Enfocar
+          </label>
+        </div>
+        {options.sharpen && (
+          <div className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+            <input
+              type="range"
+              min="0.1"
+              max="2"
+              step="0.1"
+              value={options.sharpenAmount}
+              onChange={(e) =>
+                setOption({ sharpenAmount: parseFloat(e.target.value) })
+              }
+              title="Intensidad"
+              className="w-20"
+            />
+            <span className="w-8">
+              {Math.round(options.sharpenAmount * 100)}%
+            </span>
+            <label>Radio</label>
+            <input
+              type="number"
+              min="0.5"
+              max="3"
+              step="0.5"
+              value={options.sharpenRadius}
+              onChange={(e) =>
+                setOption({
+                  sharpenRadius: Math.min(
+                    3,
+                    Math.max(0.5, Number(e.target.value) || 1)
+                  ),
+                })
+              }
+              className="w-14 px-2 py-0.5 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            />
+          </div>
+        )}
+      </div>
+      <div className="flex items-center gap-2 pb-1">
+        <input
+          type="checkbox"
+          id="clientWithoutEnlargement"
+          checked={options.withoutEnlargement}
+          onChange={(e) => setOption({ withoutEnlargement: e.target.checked })}
+          className="rounded"
+        />
+        <label
+          htmlFor="clientWithoutEnlargement"
+          className="text-xs text-gray-700 dark:text-gray-300"
+        >
+          No ampliar
+        </label>
+      </div>
+    </>
+  );
+}
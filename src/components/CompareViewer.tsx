@@ -0,0 +1,237 @@
+"use client";
+
+import { PointerEvent, WheelEvent, useEffect, useRef, useState } from "react";
+
+interface CompareViewerProps {
+  original: File;
+  resultUrl: string;
+  title?: string;
+  onClose: () => void;
+}
+
+interface ImageStats {
+  width: number;
+  height: number;
+  size: number;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+const loadStats = async (url: string, size?: number): Promise<ImageStats> => {
+  const image = new Image();
+  image.src = url;
+  await image.decode();
+  return {
+    width: image.naturalWidth,
+    height: image.naturalHeight,
+    size: size ?? (await (await fetch(url)).blob()).size,
+  };
+};
+
+const describeStats = (stats?: ImageStats) =>
+  stats
+    ? `${stats.width}×${stats.height} • ${(stats.size / 1024).toFixed(1)} KB`
+    : "…";
+
+export default function CompareViewer({
+  original,
+  resultUrl,
+  title,
+  onClose,
+}: CompareViewerProps) {
+  const [originalUrl, setOriginalUrl] = useState<string>();
+  const [before, setBefore] = useState<ImageStats>();
+  const [after, setAfter] = useState<ImageStats>();
+  const [split, setSplit] = useState(50);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{
+    mode: "split" | "pan";
+    x: number;
+    y: number;
+  } | null>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(original);
+    setOriginalUrl(url);
+    loadStats(url, original.size)
+      .then(setBefore)
+      .catch(() => setBefore(undefined));
+    return () => URL.revokeObjectURL(url);
+  }, [original]);
+
+  useEffect(() => {
+    loadStats(resultUrl)
+      .then(setAfter)
+      .catch(() => setAfter(undefined));
+  }, [resultUrl]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const updateZoom = (next: number) => {
+    const value = clamp(next, MIN_ZOOM, MAX_ZOOM);
+    setZoom(value);
+    if (value === MIN_ZOOM) setOffset({ x: 0, y: 0 });
+  };
+
+  const handleWheel = (e: WheelEvent<HTMLDivElement>) => {
+    updateZoom(zoom * (e.deltaY < 0 ? 1.2 : 1 / 1.2));
+  };
+
+  const handlePointerDown = (
+    e: PointerEvent<HTMLDivElement>,
+    mode: "split" | "pan"
+  ) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!drag || !rect) return;
+
+    if (drag.mode === "split") {
+      setSplit(clamp(((e.clientX - rect.left) / rect.width) * 100, 0, 100));
+      return;
+    }
+
+    if (zoom === MIN_ZOOM) return;
+    const maxX = (rect.width * (zoom - 1)) / 2;
+    const maxY = (rect.height * (zoom - 1)) / 2;
+    setOffset((prev) => ({
+      x: clamp(prev.x + e.clientX - drag.x, -maxX, maxX),
+      y: clamp(prev.y + e.clientY - drag.y, -maxY, maxY),
+    }));
+    dragRef.current = { ...drag, x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const transform = `translate(${offset.x}px, ${offset.y}px) scale(${zoom})`;
+  const change = before && after ? (after.size / before.size - 1) * 100 : null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-3 sm:p-6"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-5xl h-full max-h-[90vh] bg-white dark:bg-gray-800 rounded-xl shadow-xl p-3 flex flex-col gap-2"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm font-semibold text-gray-800 dark:text-gray-200 truncate">
+            {title ?? original.name}
+          </p>
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <button
+              onClick={() => updateZoom(zoom / 1.5)}
+              className="px-2 py-1 text-xs rounded bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200"
+            >
+              −
+            </button>
+            <span className="w-12 text-center text-xs text-gray-600 dark:text-gray-300">
+              {Math.round(zoom * 100)}%
+            </span>
+            <button
+              onClick={() => updateZoom(zoom * 1.5)}
+              className="px-2 py-1 text-xs rounded bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200"
+            >
+              +
+            </button>
+            <button
+              onClick={() => updateZoom(MIN_ZOOM)}
+              className="px-2 py-1 text-xs rounded bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200"
+            >
+              Ajustar
+            </button>
+            <button
+              onClick={onClose}
+              className="px-2 py-1 text-xs rounded bg-red-500 hover:bg-red-600 text-white"
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+
+        <div
+          ref={containerRef}
+          onWheel={handleWheel}
+          onPointerDown={(e) => handlePointerDown(e, "pan")}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className={`relative flex-1 overflow-hidden rounded bg-[conic-gradient(#e5e7eb_25%,#fff_0_50%,#e5e7eb_0_75%,#fff_0)] bg-[length:16px_16px] select-none touch-none ${
+            zoom > MIN_ZOOM ? "cursor-grab" : ""
+          }`}
+        >
+          <div className="absolute inset-0" style={{ transform }}>
+            <img
+              src={resultUrl}
+              alt="Después"
+              draggable={false}
+              className="w-full h-full object-contain"
+            />
+          </div>
+          {originalUrl && (
+            <div
+              className="absolute inset-0"
+              style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}
+            >
+              <div className="absolute inset-0" style={{ transform }}>
+                <img
+                  src={originalUrl}
+                  alt="Antes"
+                  draggable={false}
+                  className="w-full h-full object-contain"
+                />
+              </div>
+            </div>
+          )}
+          <div
+            onPointerDown={(e) => handlePointerDown(e, "split")}
+            className="absolute inset-y-0 w-4 -ml-2 cursor-ew-resize flex justify-center"
+            style={{ left: `${split}%` }}
+          >
+            <div className="w-0.5 h-full bg-white shadow" />
+            <div className="absolute top-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-white shadow flex items-center justify-center text-[10px] text-gray-700">
+              ⇔
+            </div>
+          </div>
+          <span className="absolute top-2 left-2 px-2 py-0.5 text-xs rounded bg-black/60 text-white">
+            Antes
+          </span>
+          <span className="absolute top-2 right-2 px-2 py-0.5 text-xs rounded bg-black/60 text-white">
+            Después
+          </span>
+        </div>
+
+        <div className="flex flex-wrap justify-between gap-2 text-xs text-gray-600 dark:text-gray-300">
+          <span>Antes: {describeStats(before)}</span>
+          <span>
+            Después: {describeStats(after)}
+            {change !== null &&
+              ` • ${Math.abs(change).toFixed(1)}% ${
+                change > 0 ? "más" : "menos"
+              }`}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
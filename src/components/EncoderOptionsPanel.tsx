@@ -0,0 +1,122 @@
+"use client";
+
+import {
+  ENCODER_OPTION_KEYS,
+  ENCODER_OPTION_SPECS,
+  EncoderFormat,
+  EncoderOptionKey,
+  EncoderOptions,
+  getOptionRange,
+  supportsOption,
+} from "@/lib/encoder-options";
+
+interface EncoderOptionsPanelProps {
+  format: EncoderFormat;
+  options: EncoderOptions;
+  disabled?: boolean;
+  onChange: (options: EncoderOptions) => void;
+}
+
+export default function EncoderOptionsPanel({
+  format,
+  options,
+  disabled,
+  onChange,
+}: EncoderOptionsPanelProps) {
+  const keys = ENCODER_OPTION_KEYS.filter((key) => supportsOption(key, format));
+
+  const setOption = (
+    key: EncoderOptionKey,
+    value: EncoderOptions[EncoderOptionKey]
+  ) => {
+    const next: EncoderOptions = { ...options };
+    if (value === undefined) {
+      delete next[key];
+    } else {
+      (next as Record<string, unknown>)[key] = value;
+    }
+    onChange(next);
+  };
+
+  if (keys.length === 0) {
+    return (
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {format.toUpperCase()} no tiene opciones avanzadas
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+      {keys.map((key) => {
+        const spec = ENCODER_OPTION_SPECS[key];
+        const value = options[key];
+
+        return (
+          <div key={key}>
+            <label className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+              {spec.label}
+            </label>
+            {spec.kind === "integer" && (
+              <input
+                type="number"
+                min={getOptionRange(key, format)?.[0]}
+                max={getOptionRange(key, format)?.[1]}
+                value={typeof value === "number" ? value : ""}
+                onChange={(e) =>
+                  setOption(
+                    key,
+                    e.target.value === "" ? undefined : parseInt(e.target.value)
+                  )
+                }
+                placeholder={`${getOptionRange(key, format)?.join("–")}`}
+                disabled={disabled}
+                className="w-full px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-50"
+              />
+            )}
+            {spec.kind === "boolean" && (
+              <select
+                value={value === undefined ? "" : String(value)}
+                onChange={(e) =>
+                  setOption(
+                    key,
+                    e.target.value === ""
+                      ? undefined
+                      : e.target.value === "true"
+                  )
+                }
+                disabled={disabled}
+                className="w-full px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-50"
+              >
+                <option value="">Por defecto</option>
+                <option value="true">Sí</option>
+                <option value="false">No</option>
+              </select>
+            )}
+            {spec.kind === "enum" && (
+              <select
+                value={typeof value === "string" ? value : ""}
+                onChange={(e) =>
+                  setOption(
+                    key,
+                    (e.target.value ||
+                      undefined) as EncoderOptions[EncoderOptionKey]
+                  )
+                }
+                disabled={disabled}
+                className="w-full px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-50"
+              >
+                <option value="">Por defecto</option>
+                {spec.values.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
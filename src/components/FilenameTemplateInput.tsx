@@ -0,0 +1,93 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  DEFAULT_FILENAME_TEMPLATES,
+  FILENAME_TOKENS,
+  FILENAME_TOKEN_LABELS,
+  FilenameTool,
+  loadFilenameTemplate,
+  renderFilename,
+  saveFilenameTemplate,
+  usesToken,
+} from "@/lib/filename-template";
+
+export const useFilenameTemplate = (tool: FilenameTool) => {
+  const [template, setTemplate] = useState(DEFAULT_FILENAME_TEMPLATES[tool]);
+
+  useEffect(() => {
+    setTemplate(loadFilenameTemplate(tool));
+  }, [tool]);
+
+  const updateTemplate = (value: string) => {
+    setTemplate(value);
+    saveFilenameTemplate(tool, value);
+  };
+
+  return [template, updateTemplate] as const;
+};
+
+interface FilenameTemplateInputProps {
+  tool: FilenameTool;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+export default function FilenameTemplateInput({
+  tool,
+  value,
+  onChange,
+}: FilenameTemplateInputProps) {
+  const preview = renderFilename(value, {
+    name: tool === "collage" ? "collage_3x3" : "foto",
+    ext: tool === "collage" ? "png" : "webp",
+    w: 1920,
+    h: 1080,
+    index: 1,
+    quality: 80,
+    hash: "1a2b3c4d",
+  });
+  const mayCollide = !(["name", "index", "hash"] as const).some((token) =>
+    usesToken(value, token)
+  );
+
+  return (
+    <div className="text-xs text-gray-600 dark:text-gray-300">
+      <div className="flex items-center gap-2">
+        <label className="font-semibold whitespace-nowrap">
+          Nombre de salida
+        </label>
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          spellCheck={false}
+          className="flex-1 min-w-0 px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white font-mono"
+        />
+        {value !== DEFAULT_FILENAME_TEMPLATES[tool] && (
+          <button
+            onClick={() => onChange(DEFAULT_FILENAME_TEMPLATES[tool])}
+            className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500"
+          >
+            Restablecer
+          </button>
+        )}
+      </div>
+      <p className="mt-1 text-gray-500 dark:text-gray-400">
+        Ejemplo: <span className="font-mono">{preview}</span>
+        {" • "}
+        {FILENAME_TOKENS.map((token) => (
+          <span key={token} title={FILENAME_TOKEN_LABELS[token]}>
+            {`{${token}} `}
+          </span>
+        ))}
+      </p>
+      {mayCollide && (
+        <p className="mt-1 text-amber-600 dark:text-amber-400">
+          Sin {"{name}"}, {"{index}"} o {"{hash}"} los nombres se repetirán; en
+          el ZIP se añadirá un sufijo _1, _2…
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { withoutHiddenFiles } from "@/lib/folder-drop";
+
+interface FolderPickerButtonProps {
+  onSelect: (files: File[]) => void;
+}
+
+export default function FolderPickerButton({
+  onSelect,
+}: FolderPickerButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // React no conoce el atributo webkitdirectory, así que se pone en el DOM.
+  useEffect(() => {
+    inputRef.current?.setAttribute("webkitdirectory", "");
+  }, []);
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        onChange={(e) => {
+          const files = e.target.files;
+          if (files) onSelect(withoutHiddenFiles(Array.from(files)));
+        }}
+        onClick={(e) => e.stopPropagation()}
+        className="hidden"
+      />
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          inputRef.current?.click();
+        }}
+        className="mt-2 px-3 py-1 text-xs bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded transition-colors"
+      >
+        📁 Seleccionar carpeta
+      </button>
+    </>
+  );
+}
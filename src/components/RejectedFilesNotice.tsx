@@ -0,0 +1,39 @@
+"use client";
+
+import { RejectedFile } from "@/lib/file-check";
+
+interface RejectedFilesNoticeProps {
+  files: RejectedFile[];
+  onDismiss: () => void;
+}
+
+export default function RejectedFilesNotice({
+  files,
+  onDismiss,
+}: RejectedFilesNoticeProps) {
+  if (files.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 p-2 text-xs text-red-700 dark:text-red-300">
+      <div className="flex justify-between items-center gap-2 mb-1">
+        <span className="font-semibold">
+          {files.length} archivo{files.length !== 1 ? "s" : ""} descartado
+          {files.length !== 1 ? "s" : ""}
+        </span>
+        <button
+          onClick={onDismiss}
+          className="px-1.5 rounded hover:bg-red-100 dark:hover:bg-red-900/40"
+        >
+          ✕
+        </button>
+      </div>
+      <ul className="max-h-20 overflow-y-auto space-y-0.5">
+        {files.map((file, index) => (
+          <li key={`${file.name}-${index}`} className="truncate">
+            <span className="font-medium">{file.name}</span>: {file.reason}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
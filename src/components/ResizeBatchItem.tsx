@@ -0,0 +1,237 @@
+"use client";
+
+import { motion } from "framer-motion";
+import Thumbnail from "@/components/Thumbnail";
+import { ImageInfo, describeImageInfo } from "@/lib/image-info";
+import { SniffedFormat } from "@/lib/sniff";
+
+export interface ImageFile {
+  file: File;
+  id: string;
+  inputFormat: SniffedFormat;
+  status: "pending" | "resizing" | "completed" | "error";
+  resizedUrl?: string;
+  error?: string;
+  info?: ImageInfo;
+  originalWidth?: number;
+  originalHeight?: number;
+  targetWidth?: number;
+  targetHeight?: number;
+  outputExtension?: string;
+  formatWarning?: string;
+  sizeOverride?: TargetSize;
+}
+
+export interface TargetSize {
+  width: number | "";
+  height: number | "";
+  lockRatio: boolean;
+}
+
+interface ResizeBatchItemProps {
+  imageFile: ImageFile;
+  // Medidas con las que se redimensionará: las propias o las globales.
+  targetSize: TargetSize;
+  lockRatioDisabled?: boolean;
+  // El modo elegido no usa medidas, así que no se pueden editar.
+  sizeDisabled?: boolean;
+  onResize: () => void;
+  onDownload: () => void;
+  onRemove: () => void;
+  onCompare: () => void;
+  onSizeChange: (patch: Partial<TargetSize>) => void;
+  onClearSize: () => void;
+}
+
+export default function ResizeBatchItem({
+  imageFile,
+  targetSize,
+  lockRatioDisabled,
+  sizeDisabled,
+  onResize,
+  onDownload,
+  onRemove,
+  onCompare,
+  onSizeChange,
+  onClearSize,
+}: ResizeBatchItemProps) {
+  const sizeLocked = sizeDisabled || imageFile.status === "resizing";
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: "auto" }}
+      exit={{ opacity: 0, height: 0 }}
+      className="bg-gray-50 dark:bg-gray-700 rounded-lg p-2 sm:p-3"
+    >
+      <div className="flex items-center gap-2 sm:gap-3">
+        <div className="flex-shrink-0">
+          {imageFile.status === "pending" && (
+            <div className="w-8 h-8 rounded-full bg-gray-300 dark:bg-gray-600 flex items-center justify-center">
+              <span className="text-xs">⏳</span>
+            </div>
+          )}
+          {imageFile.status === "resizing" && (
+            <div className="w-8 h-8 rounded-full bg-purple-500 flex items-center justify-center">
+              <svg
+                className="animate-spin h-4 w-4 text-white"
+                viewBox="0 0 24 24"
+              >
+                <circle
+                  className="opacity-25"
+                  cx="12"
+                  cy="12"
+                  r="10"
+                  stroke="currentColor"
+                  strokeWidth="4"
+                  fill="none"
+                />
+                <path
+                  className="opacity-75"
+                  fill="currentColor"
+                  d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                />
+              </svg>
+            </div>
+          )}
+          {imageFile.status === "completed" && (
+            <div className="w-8 h-8 rounded-full bg-green-500 flex items-center justify-center">
+              <span className="text-white text-xs">✓</span>
+            </div>
+          )}
+          {imageFile.status === "error" && (
+            <div className="w-8 h-8 rounded-full bg-red-500 flex items-center justify-center">
+              <span className="text-white text-xs">✗</span>
+            </div>
+          )}
+        </div>
+
+        <Thumbnail
+          file={imageFile.file}
+          title={imageFile.resizedUrl ? "Comparar antes/después" : undefined}
+          onClick={imageFile.resizedUrl ? onCompare : undefined}
+        />
+
+        <div className="flex-1 min-w-0">
+          <p className="text-xs sm:text-sm font-medium text-gray-800 dark:text-gray-200 truncate">
+            {imageFile.file.name}
+          </p>
+          {imageFile.formatWarning && (
+            <p className="text-xs text-amber-600 dark:text-amber-400 truncate">
+              ⚠ {imageFile.formatWarning}
+            </p>
+          )}
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {(imageFile.file.size / 1024).toFixed(1)} KB
+            {imageFile.info
+              ? ` • ${describeImageInfo(imageFile.info)}`
+              : imageFile.originalWidth &&
+                imageFile.originalHeight &&
+                ` • ${imageFile.originalWidth}×${imageFile.originalHeight}`}
+            {imageFile.status === "completed" &&
+              imageFile.targetWidth &&
+              imageFile.targetHeight &&
+              ` → ${imageFile.targetWidth}×${imageFile.targetHeight}`}
+            {imageFile.status === "completed" &&
+              imageFile.outputExtension &&
+              ` ${imageFile.outputExtension.toUpperCase()}`}
+          </p>
+          {imageFile.status === "error" && imageFile.error && (
+            <p className="text-xs text-red-600 dark:text-red-400 truncate">
+              {imageFile.error}
+            </p>
+          )}
+        </div>
+
+        <div className="flex gap-1 flex-shrink-0">
+          {imageFile.status === "pending" && (
+            <button
+              onClick={onResize}
+              className="px-2 py-1 bg-purple-500 hover:bg-purple-600 text-white text-xs rounded transition-all duration-200"
+            >
+              Redimensionar
+            </button>
+          )}
+          {imageFile.status === "completed" && (
+            <button
+              onClick={onDownload}
+              className="px-2 py-1 bg-green-500 hover:bg-green-600 text-white text-xs rounded transition-all duration-200"
+            >
+              Descargar
+            </button>
+          )}
+          <button
+            onClick={onRemove}
+            className="px-2 py-1 bg-red-500 hover:bg-red-600 text-white text-xs rounded transition-all duration-200"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+
+      <div
+        className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-700 dark:text-gray-300"
+        title={sizeDisabled ? "Este modo no usa ancho ni alto" : undefined}
+      >
+        <input
+          type="number"
+          aria-label="Ancho"
+          value={targetSize.width}
+          onChange={(e) =>
+            onSizeChange({
+              width: e.target.value === "" ? "" : parseInt(e.target.value),
+            })
+          }
+          placeholder={String(imageFile.originalWidth ?? "Auto")}
+          disabled={sizeLocked}
+          className="w-20 px-2 py-0.5 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-50"
+        />
+        <span>×</span>
+        <input
+          type="number"
+          aria-label="Alto"
+          value={targetSize.height}
+          onChange={(e) =>
+            onSizeChange({
+              height: e.target.value === "" ? "" : parseInt(e.target.value),
+            })
+          }
+          placeholder={String(imageFile.originalHeight ?? "Auto")}
+          disabled={sizeLocked}
+          className="w-20 px-2 py-0.5 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-50"
+        />
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={targetSize.lockRatio}
+            onChange={(e) =>
+              onSizeChange({
+                lockRatio: e.target.checked,
+              })
+            }
+            disabled={lockRatioDisabled || sizeLocked}
+            className="rounded"
+          />
+          Proporción
+        </label>
+        {imageFile.sizeOverride ? (
+          <>
+            <span className="text-purple-600 dark:text-purple-400">
+              Medidas propias
+            </span>
+            <button
+              onClick={onClearSize}
+              disabled={sizeLocked}
+              title="Volver a las medidas globales"
+              className="px-1.5 py-0.5 bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500 rounded transition-colors"
+            >
+              ↺
+            </button>
+          </>
+        ) : (
+          <span className="text-gray-400">Global</span>
+        )}
+      </div>
+    </motion.div>
+  );
+}
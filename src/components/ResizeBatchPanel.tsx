@@ -0,0 +1,877 @@
+"use client";
+
+import {
+  useState,
+  useRef,
+  useEffect,
+  ClipboardEvent,
+  Dispatch,
+  DragEvent,
+  SetStateAction,
+} from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import JSZip from "jszip";
+import ClientResizeOptionsPanel from "@/components/ClientResizeOptionsPanel";
+import CompareViewer from "@/components/CompareViewer";
+import FilenameTemplateInput, {
+  useFilenameTemplate,
+} from "@/components/FilenameTemplateInput";
+import FolderPickerButton from "@/components/FolderPickerButton";
+import RejectedFilesNotice from "@/components/RejectedFilesNotice";
+import ResizeBatchItem, {
+  ImageFile,
+  TargetSize,
+} from "@/components/ResizeBatchItem";
+import ServerResizeOptionsPanel from "@/components/ServerResizeOptionsPanel";
+import SizePresetPicker from "@/components/SizePresetPicker";
+import { ApiError, readApiError } from "@/lib/api-error";
+import { getCanvasFormatSupport } from "@/lib/browser-convert";
+import { ImageTaskResult } from "@/lib/canvas-ops";
+import {
+  ClientResizeOptions,
+  ResizeTarget,
+  usesTargetSize,
+} from "@/lib/client-resize";
+import { fetchWithRetry } from "@/lib/fetch-with-retry";
+import {
+  AcceptedFile,
+  BROWSER_FORMATS,
+  RejectedFile,
+  SNIFFED_FORMATS,
+  checkImageFiles,
+} from "@/lib/file-check";
+import { getDroppedFiles, withFileName } from "@/lib/folder-drop";
+import {
+  buildFilename,
+  getBaseName,
+  uniqueFileName,
+} from "@/lib/filename-template";
+import { fetchImageInfo } from "@/lib/image-info";
+import {
+  FORMAT_LABELS,
+  IMAGE_FILE_ACCEPT,
+  MIME_TYPES,
+  OUTPUT_FORMATS,
+  OutputFormat,
+  getExtensionForMime,
+  normalizeFormat,
+} from "@/lib/image-formats";
+import { revokeObjectUrls } from "@/lib/object-urls";
+import {
+  DEFAULT_SERVER_RESIZE_OPTIONS,
+  ServerResizeOptions,
+  appendResizeOptions,
+} from "@/lib/resize-options";
+import { PresetFit, SizePreset } from "@/lib/size-presets";
+import {
+  forEachConcurrent,
+  getBatchConcurrency,
+  processImage,
+} from "@/lib/worker-pool";
+
+type ProcessingMode = "client" | "server";
+type OutputChoice = "same" | OutputFormat;
+
+interface ResizeBatchPanelProps {
+  hidden?: boolean;
+  clientOptions: ClientResizeOptions;
+  onClientOptionsChange: Dispatch<SetStateAction<ClientResizeOptions>>;
+}
+
+export default function ResizeBatchPanel({
+  hidden,
+  clientOptions,
+  onClientOptionsChange,
+}: ResizeBatchPanelProps) {
+  const [imageFiles, setImageFiles] = useState<ImageFile[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [targetWidth, setTargetWidth] = useState<number | "">("");
+  const [targetHeight, setTargetHeight] = useState<number | "">("");
+  const [maintainAspectRatio, setMaintainAspectRatio] = useState(true);
+  const [quality, setQuality] = useState(0.9);
+  const [outputFormat, setOutputFormat] = useState<OutputChoice>("same");
+  const [browserSupport, setBrowserSupport] = useState<Partial<
+    Record<OutputFormat, boolean>
+  > | null>(null);
+  const [serverSupport, setServerSupport] = useState<Partial<
+    Record<OutputFormat, boolean>
+  > | null>(null);
+  const [processingMode, setProcessingMode] =
+    useState<ProcessingMode>("client");
+  const [serverOptions, setServerOptions] = useState<ServerResizeOptions>(
+    DEFAULT_SERVER_RESIZE_OPTIONS
+  );
+  const [filenameTemplate, setFilenameTemplate] = useFilenameTemplate("resize");
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [rejectedFiles, setRejectedFiles] = useState<RejectedFile[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const imageFilesRef = useRef(imageFiles);
+
+  useEffect(() => {
+    imageFilesRef.current = imageFiles;
+  }, [imageFiles]);
+
+  useEffect(() => {
+    fetch("/api/convert")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setServerSupport(data?.output ?? null))
+      .catch(() => setServerSupport(null));
+    getCanvasFormatSupport()
+      .then(setBrowserSupport)
+      .catch(() => setBrowserSupport(null));
+  }, []);
+
+  const isFormatAvailable = (format: OutputFormat) =>
+    (processingMode === "server" ? serverSupport : browserSupport)?.[format] ===
+    true;
+
+  // El navegador no codifica GIF, TIFF ni BMP: sin elección explícita se
+  // conserva el formato de entrada solo si se puede generar, y si no, PNG.
+  // Se usa el formato detectado por la firma, porque el tipo MIME falta o
+  // miente en las imágenes pegadas y los archivos mal nombrados.
+  const resolveClientType = ({ inputFormat }: ImageFile) => {
+    if (outputFormat !== "same") return MIME_TYPES[outputFormat];
+    const format = normalizeFormat(inputFormat);
+    return format && browserSupport?.[format]
+      ? MIME_TYPES[format]
+      : MIME_TYPES.png;
+  };
+
+  // En el navegador solo se aceptan los formatos que sabe decodificar.
+  const acceptedInputs =
+    processingMode === "client" ? BROWSER_FORMATS : SNIFFED_FORMATS;
+
+  const handleImageSelect = async (files: File[]) => {
+    const { accepted, rejected } = await checkImageFiles(files, acceptedInputs);
+    setRejectedFiles(rejected);
+
+    if (accepted.length === 0) return;
+
+    const loadImageMetadata = ({
+      file,
+      format,
+      warning,
+    }: AcceptedFile): Promise<ImageFile> => {
+      return new Promise((resolve) => {
+        const img = new Image();
+        const url = URL.createObjectURL(file);
+
+        img.onload = () => {
+          URL.revokeObjectURL(url);
+          resolve({
+            file,
+            id: `${Date.now()}-${Math.random()}`,
+            inputFormat: format,
+            status: "pending",
+            originalWidth: img.width,
+            originalHeight: img.height,
+            targetWidth:
+              typeof targetWidth === "number" ? targetWidth : img.width,
+            targetHeight:
+              typeof targetHeight === "number" ? targetHeight : img.height,
+            formatWarning: warning,
+          });
+        };
+
+        // TIFF, HEIC o JXL no se pueden abrir en el navegador, pero sí
+        // redimensionar en el servidor.
+        img.onerror = () => {
+          URL.revokeObjectURL(url);
+          resolve({
+            file,
+            id: `${Date.now()}-${Math.random()}`,
+            inputFormat: format,
+            status: "pending",
+            formatWarning: warning,
+          });
+        };
+
+        img.src = url;
+      });
+    };
+
+    const newImageFiles = await Promise.all(accepted.map(loadImageMetadata));
+
+    setImageFiles((prev) => [...prev, ...newImageFiles]);
+    newImageFiles.forEach(loadImageInfo);
+  };
+
+  const loadImageInfo = async (imageFile: ImageFile) => {
+    const info = await fetchImageInfo(imageFile.file);
+    if (!info) return;
+
+    setImageFiles((prev) =>
+      prev.map((img) => (img.id === imageFile.id ? { ...img, info } : img))
+    );
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+  };
+
+  const handleDrop = async (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+
+    const files = await getDroppedFiles(e.dataTransfer);
+    handleImageSelect(files);
+  };
+
+  const handlePaste = (e: ClipboardEvent<HTMLDivElement>) => {
+    const items = e.clipboardData.items;
+    const files: File[] = [];
+
+    for (let i = 0; i < items.length; i++) {
+      if (items[i].type.startsWith("image/")) {
+        const file = items[i].getAsFile();
+        if (file) files.push(file);
+      }
+    }
+
+    if (files.length > 0) {
+      handleImageSelect(files);
+    }
+  };
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (files) {
+      handleImageSelect(Array.from(files));
+    }
+  };
+
+  const resizeImage = (
+    file: File,
+    target: ResizeTarget,
+    type: string
+  ): Promise<ImageTaskResult> =>
+    processImage({
+      type: "resize",
+      file,
+      target,
+      options: clientOptions,
+      mime: type,
+      quality,
+    });
+
+  const resizeOnServer = async (
+    file: File,
+    width?: number,
+    height?: number
+  ): Promise<{
+    blob: Blob;
+    width: number;
+    height: number;
+    extension?: string;
+  }> => {
+    const formData = new FormData();
+    formData.append("image", file);
+    appendResizeOptions(formData, {
+      ...serverOptions,
+      width,
+      height,
+      quality: Math.round(quality * 100),
+      format: outputFormat === "same" ? undefined : outputFormat,
+    });
+
+    const response = await fetchWithRetry("/api/resize", {
+      method: "POST",
+      body: formData,
+    });
+
+    if (!response.ok) {
+      throw await readApiError(
+        response,
+        "Error al redimensionar en el servidor"
+      );
+    }
+
+    const blob = await response.blob();
+
+    return {
+      blob,
+      width: Number(response.headers.get("X-Image-Width")),
+      height: Number(response.headers.get("X-Image-Height")),
+      extension: getExtensionForMime(blob.type),
+    };
+  };
+
+  // Sin medidas propias, cada imagen usa las globales.
+  const getTargetSize = (imageFile: ImageFile): TargetSize =>
+    imageFile.sizeOverride ?? {
+      width: targetWidth,
+      height: targetHeight,
+      lockRatio: maintainAspectRatio,
+    };
+
+  const resizeSingleImage = async (imageFile: ImageFile) => {
+    // Si la imagen se quitó mientras se redimensionaba no se crea la URL: no
+    // llegaría al estado y nadie la revocaría después.
+    const storeResult = (
+      blob: Blob,
+      changes: Pick<
+        ImageFile,
+        "targetWidth" | "targetHeight" | "outputExtension"
+      >
+    ) => {
+      if (!imageFilesRef.current.some((img) => img.id === imageFile.id)) {
+        return;
+      }
+      const url = URL.createObjectURL(blob);
+
+      setImageFiles((prev) =>
+        prev.map((img) =>
+          img.id === imageFile.id
+            ? { ...img, ...changes, status: "completed", resizedUrl: url }
+            : img
+        )
+      );
+    };
+
+    setImageFiles((prev) =>
+      prev.map((img) =>
+        img.id === imageFile.id ? { ...img, status: "resizing" } : img
+      )
+    );
+
+    try {
+      const size = getTargetSize(imageFile);
+      const hasWidth = typeof size.width === "number" && size.width > 0;
+      const hasHeight = typeof size.height === "number" && size.height > 0;
+      let width = hasWidth ? (size.width as number) : imageFile.originalWidth;
+      let height = hasHeight
+        ? (size.height as number)
+        : imageFile.originalHeight;
+
+      if (!width || !height) {
+        width = imageFile.originalWidth || 1;
+        height = imageFile.originalHeight || 1;
+      }
+
+      if (processingMode === "server") {
+        // Sin una dimensión indicada, el servidor calcula la otra manteniendo
+        // la proporción.
+        const result = await resizeOnServer(
+          imageFile.file,
+          hasWidth || !hasHeight ? width : undefined,
+          hasHeight ? height : undefined
+        );
+        storeResult(result.blob, {
+          targetWidth: result.width,
+          targetHeight: result.height,
+          outputExtension: result.extension,
+        });
+        return;
+      }
+
+      const result = await resizeImage(
+        imageFile.file,
+        {
+          width: hasWidth ? width : undefined,
+          height: hasHeight ? height : undefined,
+          lockRatio: size.lockRatio,
+        },
+        resolveClientType(imageFile)
+      );
+
+      storeResult(result.blob, {
+        targetWidth: result.width,
+        targetHeight: result.height,
+        outputExtension: getExtensionForMime(result.blob.type),
+      });
+    } catch (err) {
+      setImageFiles((prev) =>
+        prev.map((img) =>
+          img.id === imageFile.id
+            ? {
+                ...img,
+                status: "error",
+                error:
+                  err instanceof ApiError
+                    ? err.message
+                    : "Error al redimensionar",
+              }
+            : img
+        )
+      );
+      console.error(err);
+    }
+  };
+
+  const handleResizeAll = async () => {
+    const pendingImages = imageFiles.filter((img) => img.status === "pending");
+
+    await forEachConcurrent(
+      pendingImages,
+      getBatchConcurrency(processingMode),
+      async ({ id }) => {
+        // Se redimensiona el estado actual: mientras espera se puede haber
+        // cambiado el tamaño, quitado o redimensionado por separado.
+        const current = imageFilesRef.current.find((img) => img.id === id);
+        if (current?.status === "pending") await resizeSingleImage(current);
+      }
+    );
+  };
+
+  const getOutputName = (imageFile: ImageFile, blob: Blob) =>
+    buildFilename(
+      filenameTemplate,
+      {
+        name: getBaseName(imageFile.file.name),
+        ext:
+          imageFile.outputExtension ?? getExtensionForMime(blob.type) ?? "png",
+        w: imageFile.targetWidth,
+        h: imageFile.targetHeight,
+        index: imageFiles.findIndex((img) => img.id === imageFile.id) + 1,
+        quality: Math.round(quality * 100),
+      },
+      blob
+    );
+
+  const handleDownload = async (imageFile: ImageFile) => {
+    if (!imageFile.resizedUrl) return;
+
+    const blob = await (await fetch(imageFile.resizedUrl)).blob();
+    const a = document.createElement("a");
+    a.href = imageFile.resizedUrl;
+    a.download = await getOutputName(imageFile, blob);
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
+  const handleDownloadAll = async () => {
+    const completedImages = imageFiles.filter(
+      (img) => img.status === "completed" && img.resizedUrl
+    );
+
+    if (completedImages.length === 0) return;
+
+    const zip = new JSZip();
+    const usedNames = new Set<string>();
+
+    for (const imageFile of completedImages) {
+      if (!imageFile.resizedUrl) continue;
+
+      try {
+        const response = await fetch(imageFile.resizedUrl);
+        const blob = await response.blob();
+        const fileName = uniqueFileName(
+          withFileName(imageFile.file, await getOutputName(imageFile, blob)),
+          usedNames
+        );
+        zip.file(fileName, blob);
+      } catch (error) {
+        console.error(`Error al procesar ${imageFile.file.name}:`, error);
+      }
+    }
+
+    const zipBlob = await zip.generateAsync({ type: "blob" });
+    const url = URL.createObjectURL(zipBlob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `imagenes_redimensionadas_${Date.now()}.zip`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const revokeResizedUrls = (matches: (img: ImageFile) => boolean) =>
+    revokeObjectUrls(imageFiles, (img) => img.resizedUrl, matches);
+
+  const resetResult = (img: ImageFile): ImageFile => ({
+    ...img,
+    status: "pending",
+    resizedUrl: undefined,
+    error: undefined,
+  });
+
+  const handleSizeOverrideChange = (
+    imageFile: ImageFile,
+    changes: Partial<TargetSize>
+  ) => {
+    const sizeOverride = { ...getTargetSize(imageFile), ...changes };
+    revokeResizedUrls(
+      (img) => img.id === imageFile.id && img.status !== "resizing"
+    );
+    setImageFiles((prev) =>
+      prev.map((img) =>
+        img.id === imageFile.id && img.status !== "resizing"
+          ? { ...resetResult(img), sizeOverride }
+          : img
+      )
+    );
+  };
+
+  const handleClearSizeOverride = (id: string) => {
+    revokeResizedUrls((img) => img.id === id && img.status !== "resizing");
+    setImageFiles((prev) =>
+      prev.map((img) =>
+        img.id === id && img.status !== "resizing"
+          ? { ...resetResult(img), sizeOverride: undefined }
+          : img
+      )
+    );
+  };
+
+  const handleApplyGlobalToAll = () => {
+    revokeResizedUrls((img) => img.status !== "resizing");
+    setImageFiles((prev) =>
+      prev.map((img) =>
+        img.status === "resizing"
+          ? img
+          : { ...resetResult(img), sizeOverride: undefined }
+      )
+    );
+  };
+
+  const handleResetSizes = () => {
+    setTargetWidth("");
+    setTargetHeight("");
+    setMaintainAspectRatio(true);
+    handleApplyGlobalToAll();
+  };
+
+  const handleRemove = (id: string) => {
+    revokeResizedUrls((img) => img.id === id);
+    setImageFiles((prev) => prev.filter((img) => img.id !== id));
+  };
+
+  const handleClear = () => {
+    revokeResizedUrls(() => true);
+    setImageFiles([]);
+  };
+
+  const handleApplyPreset = (preset: SizePreset) => {
+    setTargetWidth(preset.width);
+    setTargetHeight(preset.height);
+    setMaintainAspectRatio(true);
+    onClientOptionsChange((prev) => ({
+      ...prev,
+      mode: preset.fit === "inside" ? "dimensions" : preset.fit,
+    }));
+    setServerOptions((prev) => ({ ...prev, fit: preset.fit }));
+  };
+
+  const currentFit: PresetFit =
+    processingMode === "server"
+      ? serverOptions.fit === "cover" || serverOptions.fit === "contain"
+        ? serverOptions.fit
+        : "inside"
+      : clientOptions.mode === "cover" || clientOptions.mode === "contain"
+      ? clientOptions.mode
+      : "inside";
+
+  const sizeApplies =
+    processingMode === "server" || usesTargetSize(clientOptions.mode);
+
+  const pendingCount = imageFiles.filter(
+    (img) => img.status === "pending"
+  ).length;
+
+  const completedCount = imageFiles.filter(
+    (img) => img.status === "completed"
+  ).length;
+
+  const compareImage = imageFiles.find((img) => img.id === compareId);
+
+  return (
+    <div
+      className="flex-1 min-h-0 flex flex-col gap-3 overflow-hidden outline-none"
+      hidden={hidden}
+      onPaste={handlePaste}
+      tabIndex={0}
+    >
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-2 sm:gap-3 p-2 bg-gray-50 dark:bg-gray-700 rounded-lg">
+        <div>
+          <label className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+            Preset
+          </label>
+          <SizePresetPicker
+            onApply={handleApplyPreset}
+            current={{
+              width: targetWidth,
+              height: targetHeight,
+              fit: currentFit,
+            }}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+            Ancho (px)
+          </label>
+          <input
+            type="number"
+            value={targetWidth}
+            onChange={(e) =>
+              setTargetWidth(
+                e.target.value === "" ? "" : parseInt(e.target.value)
+              )
+            }
+            placeholder="Auto"
+            disabled={!sizeApplies}
+            className="w-full px-2 py-1 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-50"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+            Alto (px)
+          </label>
+          <input
+            type="number"
+            value={targetHeight}
+            onChange={(e) =>
+              setTargetHeight(
+                e.target.value === "" ? "" : parseInt(e.target.value)
+              )
+            }
+            placeholder="Auto"
+            disabled={!sizeApplies}
+            className="w-full px-2 py-1 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-50"
+          />
+        </div>
+        <div className="flex flex-col gap-2">
+          <label className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+            Opciones
+          </label>
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="maintainRatio"
+              checked={maintainAspectRatio}
+              onChange={(e) => setMaintainAspectRatio(e.target.checked)}
+              disabled={processingMode === "server"}
+              className="rounded"
+            />
+            <label
+              htmlFor="maintainRatio"
+              className="text-xs text-gray-700 dark:text-gray-300"
+            >
+              Mantener proporción
+            </label>
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="text-xs text-gray-700 dark:text-gray-300">
+              Calidad:
+            </label>
+            <input
+              type="range"
+              min="0.1"
+              max="1"
+              step="0.1"
+              value={quality}
+              onChange={(e) => setQuality(parseFloat(e.target.value))}
+              className="flex-1"
+            />
+            <span className="text-xs text-gray-600 dark:text-gray-400 w-8">
+              {Math.round(quality * 100)}%
+            </span>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-2 sm:gap-3 p-2 bg-gray-50 dark:bg-gray-700 rounded-lg">
+        <div>
+          <label className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+            Procesamiento
+          </label>
+          <div className="flex gap-1">
+            {(["client", "server"] as ProcessingMode[]).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setProcessingMode(mode)}
+                className={`px-2 py-1 text-xs rounded transition-colors ${
+                  processingMode === mode
+                    ? "bg-purple-500 text-white"
+                    : "bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-500"
+                }`}
+              >
+                {mode === "client" ? "Navegador" : "Servidor"}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <label className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+            Formato de salida
+          </label>
+          <select
+            value={outputFormat}
+            onChange={(e) => setOutputFormat(e.target.value as OutputChoice)}
+            className="px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+          >
+            <option value="same">Igual que la entrada (si no, PNG)</option>
+            {OUTPUT_FORMATS.map((format) => (
+              <option
+                key={format}
+                value={format}
+                disabled={!isFormatAvailable(format)}
+              >
+                {FORMAT_LABELS[format]}
+              </option>
+            ))}
+          </select>
+        </div>
+        {processingMode === "server" && (
+          <ServerResizeOptionsPanel
+            options={serverOptions}
+            onChange={setServerOptions}
+          />
+        )}
+        {processingMode === "client" && (
+          <ClientResizeOptionsPanel
+            options={clientOptions}
+            onChange={onClientOptionsChange}
+          />
+        )}
+      </div>
+
+      <div
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        onClick={() => fileInputRef.current?.click()}
+        className={`
+      border-2 border-dashed rounded-lg p-4 sm:p-6 text-center cursor-pointer
+      transition-all duration-300 ease-in-out
+      ${
+        isDragging
+          ? "border-purple-500 bg-purple-50 dark:bg-purple-900/20"
+          : "border-gray-300 dark:border-gray-600 hover:border-purple-400 dark:hover:border-purple-500 hover:bg-gray-50 dark:hover:bg-gray-700/50"
+      }
+    `}
+      >
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={IMAGE_FILE_ACCEPT}
+          multiple
+          onChange={handleFileInputChange}
+          className="hidden"
+        />
+
+        <svg
+          className="w-10 h-10 sm:w-12 sm:h-12 text-purple-400 mb-2 mx-auto"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={1.5}
+            d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
+          />
+        </svg>
+        <p className="text-sm sm:text-base font-semibold text-gray-700 dark:text-gray-200 mb-1">
+          Arrastra imágenes aquí
+        </p>
+        <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400">
+          o clic para seleccionar / Ctrl+V
+        </p>
+        <FolderPickerButton onSelect={handleImageSelect} />
+      </div>
+
+      <RejectedFilesNotice
+        files={rejectedFiles}
+        onDismiss={() => setRejectedFiles([])}
+      />
+
+      {imageFiles.length > 0 && (
+        <>
+          <div className="flex justify-between items-center gap-2">
+            <span className="text-xs sm:text-sm text-gray-600 dark:text-gray-300">
+              {imageFiles.length} imagen
+              {imageFiles.length !== 1 ? "es" : ""}
+            </span>
+            <div className="flex gap-2">
+              {pendingCount > 0 && (
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={handleResizeAll}
+                  className="px-3 py-1.5 bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 text-white font-semibold text-xs sm:text-sm rounded-lg shadow-lg transition-all duration-200"
+                >
+                  Redimensionar todas ({pendingCount})
+                </motion.button>
+              )}
+              {completedCount > 0 && (
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={handleDownloadAll}
+                  className="px-3 py-1.5 bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white font-semibold text-xs sm:text-sm rounded-lg shadow-lg transition-all duration-200"
+                >
+                  Descargar todas ({completedCount})
+                </motion.button>
+              )}
+              <button
+                onClick={handleApplyGlobalToAll}
+                title="Usar las medidas globales en todas las imágenes"
+                className="px-3 py-1.5 bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500 text-gray-700 dark:text-gray-200 font-semibold text-xs sm:text-sm rounded-lg transition-all duration-200"
+              >
+                Aplicar global a todas
+              </button>
+              <button
+                onClick={handleResetSizes}
+                title="Volver al tamaño original en todas las imágenes"
+                className="px-3 py-1.5 bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500 text-gray-700 dark:text-gray-200 font-semibold text-xs sm:text-sm rounded-lg transition-all duration-200"
+              >
+                Restablecer
+              </button>
+              <button
+                onClick={handleClear}
+                className="px-3 py-1.5 bg-red-500 hover:bg-red-600 text-white font-semibold text-xs sm:text-sm rounded-lg transition-all duration-200"
+              >
+                Limpiar
+              </button>
+            </div>
+          </div>
+
+          <FilenameTemplateInput
+            tool="resize"
+            value={filenameTemplate}
+            onChange={setFilenameTemplate}
+          />
+
+          <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+            <AnimatePresence>
+              {imageFiles.map((imageFile) => (
+                <ResizeBatchItem
+                  key={imageFile.id}
+                  imageFile={imageFile}
+                  targetSize={getTargetSize(imageFile)}
+                  lockRatioDisabled={processingMode === "server"}
+                  sizeDisabled={!sizeApplies}
+                  onResize={() => resizeSingleImage(imageFile)}
+                  onDownload={() => handleDownload(imageFile)}
+                  onRemove={() => handleRemove(imageFile.id)}
+                  onCompare={() => setCompareId(imageFile.id)}
+                  onSizeChange={(patch) =>
+                    handleSizeOverrideChange(imageFile, patch)
+                  }
+                  onClearSize={() => handleClearSizeOverride(imageFile.id)}
+                />
+              ))}
+            </AnimatePresence>
+          </div>
+        </>
+      )}
+
+      {compareImage?.resizedUrl && (
+        <CompareViewer
+          original={compareImage.file}
+          resultUrl={compareImage.resizedUrl}
+          onClose={() => setCompareId(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,332 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import JSZip from "jszip";
+import RejectedFilesNotice from "@/components/RejectedFilesNotice";
+import Thumbnail from "@/components/Thumbnail";
+import { getCanvasFormatSupport } from "@/lib/browser-convert";
+import {
+  BROWSER_FORMATS,
+  RejectedFile,
+  checkImageFiles,
+} from "@/lib/file-check";
+import { getBaseName } from "@/lib/filename-template";
+import {
+  FORMAT_LABELS,
+  IMAGE_FILE_ACCEPT,
+  MIME_TYPES,
+  OutputFormat,
+} from "@/lib/image-formats";
+import {
+  DEFAULT_RESPONSIVE_WIDTHS,
+  RESPONSIVE_FORMATS,
+  ResponsiveVariant,
+  buildPictureMarkup,
+  parseWidths,
+  variantFileName,
+} from "@/lib/responsive-set";
+
+interface ResponsiveSetPanelProps {
+  resize: (
+    file: File,
+    width: number,
+    type: string,
+    quality: number
+  ) => Promise<{ blob: Blob; width: number; height: number }>;
+}
+
+const readImageSize = (file: File) =>
+  new Promise<{ width: number; height: number }>((resolve, reject) => {
+    const img = new Image();
+    const url = URL.createObjectURL(file);
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve({ width: img.width, height: img.height });
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Error al cargar la imagen"));
+    };
+    img.src = url;
+  });
+
+export default function ResponsiveSetPanel({
+  resize,
+}: ResponsiveSetPanelProps) {
+  const [source, setSource] = useState<File | null>(null);
+  const [widthsText, setWidthsText] = useState(
+    DEFAULT_RESPONSIVE_WIDTHS.join(", ")
+  );
+  const [formats, setFormats] = useState<OutputFormat[]>(["webp", "jpg"]);
+  const [support, setSupport] = useState<Record<OutputFormat, boolean>>();
+  const [quality, setQuality] = useState(0.8);
+  const [sizes, setSizes] = useState("100vw");
+  const [alt, setAlt] = useState("");
+  const [progress, setProgress] = useState<{ done: number; total: number }>();
+  const [markup, setMarkup] = useState("");
+  const [notes, setNotes] = useState<string[]>([]);
+  const [rejectedFiles, setRejectedFiles] = useState<RejectedFile[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    getCanvasFormatSupport().then(setSupport);
+  }, []);
+
+  const handleSelect = async (files: File[]) => {
+    const { accepted, rejected } = await checkImageFiles(
+      files.slice(0, 1),
+      BROWSER_FORMATS
+    );
+    setRejectedFiles(rejected);
+    if (accepted.length === 0) return;
+    setSource(accepted[0].file);
+    setMarkup("");
+    setNotes([]);
+  };
+
+  const toggleFormat = (format: OutputFormat) => {
+    setFormats((prev) =>
+      prev.includes(format)
+        ? prev.filter((candidate) => candidate !== format)
+        : [...prev, format]
+    );
+  };
+
+  const handleGenerate = async () => {
+    if (!source) return;
+
+    const widths = parseWidths(widthsText);
+    const selected = RESPONSIVE_FORMATS.filter(
+      (format) => formats.includes(format) && support?.[format]
+    );
+    if (widths.length === 0 || selected.length === 0) return;
+
+    setProgress({ done: 0, total: widths.length * selected.length });
+
+    try {
+      const original = await readImageSize(source);
+      // Nunca se amplía: los anchos mayores se sustituyen por el original.
+      const usable = widths.filter((width) => width < original.width);
+      if (usable.length < widths.length) usable.push(original.width);
+
+      const skipped = widths.filter((width) => width > original.width);
+      const nextNotes = skipped.length
+        ? [
+            `Se omitieron ${skipped.join(", ")} px por superar el original (${
+              original.width
+            } px)`,
+          ]
+        : [];
+
+      const baseName = getBaseName(source.name) || "imagen";
+      const zip = new JSZip();
+      const variants: ResponsiveVariant[] = [];
+      setProgress({ done: 0, total: usable.length * selected.length });
+
+      for (const format of selected) {
+        for (const width of usable) {
+          const result = await resize(
+            source,
+            width,
+            MIME_TYPES[format],
+            quality
+          );
+          const file = variantFileName(baseName, result.width, format);
+          zip.file(file, result.blob);
+          variants.push({
+            file,
+            format,
+            width: result.width,
+            height: result.height,
+            bytes: result.blob.size,
+          });
+          setProgress((prev) => prev && { ...prev, done: prev.done + 1 });
+        }
+      }
+
+      const snippet = buildPictureMarkup(variants, { alt, sizes });
+      zip.file(`${baseName}.html`, `${snippet}\n`);
+      zip.file(
+        "manifest.json",
+        JSON.stringify(
+          {
+            source: {
+              name: source.name,
+              width: original.width,
+              height: original.height,
+              bytes: source.size,
+            },
+            sizes,
+            quality: Math.round(quality * 100),
+            variants,
+          },
+          null,
+          2
+        )
+      );
+
+      const zipBlob = await zip.generateAsync({ type: "blob" });
+      const url = URL.createObjectURL(zipBlob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${baseName}_responsive.zip`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      setMarkup(snippet);
+      setNotes(nextNotes);
+    } catch (error) {
+      console.error(error);
+      setNotes(["Error al generar las variantes"]);
+    } finally {
+      setProgress(undefined);
+    }
+  };
+
+  const widths = parseWidths(widthsText);
+  const canGenerate =
+    !!source &&
+    !progress &&
+    widths.length > 0 &&
+    formats.some((format) => support?.[format]);
+
+  return (
+    <div className="flex flex-col gap-3 p-2 bg-gray-50 dark:bg-gray-700 rounded-lg text-xs text-gray-700 dark:text-gray-300 overflow-y-auto">
+      <div className="flex items-center gap-2">
+        <input
+          ref={inputRef}
+          type="file"
+          accept={IMAGE_FILE_ACCEPT}
+          onChange={(e) =>
+            e.target.files && handleSelect(Array.from(e.target.files))
+          }
+          className="hidden"
+        />
+        {source && <Thumbnail file={source} />}
+        <span className="truncate flex-1">
+          {source ? source.name : "Elige una imagen de origen"}
+        </span>
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="px-3 py-1 bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500 rounded transition-colors"
+        >
+          {source ? "Cambiar" : "Seleccionar imagen"}
+        </button>
+      </div>
+
+      <RejectedFilesNotice
+        files={rejectedFiles}
+        onDismiss={() => setRejectedFiles([])}
+      />
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <div>
+          <label className="block font-semibold mb-1">Anchos (px)</label>
+          <input
+            type="text"
+            value={widthsText}
+            onChange={(e) => setWidthsText(e.target.value)}
+            className="w-full px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+          />
+        </div>
+        <div>
+          <label className="block font-semibold mb-1">Formatos</label>
+          <div className="flex flex-wrap gap-3 py-1">
+            {RESPONSIVE_FORMATS.map((format) => (
+              <label
+                key={format}
+                className={`flex items-center gap-1 ${
+                  support && !support[format] ? "opacity-50" : ""
+                }`}
+                title={
+                  support && !support[format]
+                    ? "El navegador no puede generar este formato"
+                    : undefined
+                }
+              >
+                <input
+                  type="checkbox"
+                  checked={formats.includes(format)}
+                  onChange={() => toggleFormat(format)}
+                  disabled={!support?.[format]}
+                  className="rounded"
+                />
+                {FORMAT_LABELS[format]}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div>
+          <label className="block font-semibold mb-1">Atributo sizes</label>
+          <input
+            type="text"
+            value={sizes}
+            onChange={(e) => setSizes(e.target.value)}
+            className="w-full px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+          />
+        </div>
+        <div>
+          <label className="block font-semibold mb-1">Texto alternativo</label>
+          <input
+            type="text"
+            value={alt}
+            onChange={(e) => setAlt(e.target.value)}
+            className="w-full px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="font-semibold">Calidad:</label>
+          <input
+            type="range"
+            min="0.1"
+            max="1"
+            step="0.05"
+            value={quality}
+            onChange={(e) => setQuality(parseFloat(e.target.value))}
+            className="flex-1"
+          />
+          <span className="w-8">{Math.round(quality * 100)}%</span>
+        </div>
+        <div className="flex items-center justify-end">
+          <button
+            onClick={handleGenerate}
+            disabled={!canGenerate}
+            className="px-3 py-1.5 bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 disabled:opacity-50 text-white font-semibold rounded-lg shadow-lg transition-all duration-200"
+          >
+            {progress
+              ? `Generando ${progress.done}/${progress.total}…`
+              : "Generar conjunto (ZIP)"}
+          </button>
+        </div>
+      </div>
+
+      {notes.map((note) => (
+        <p key={note} className="text-amber-600 dark:text-amber-400">
+          ⚠ {note}
+        </p>
+      ))}
+
+      {markup && (
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <label className="font-semibold">HTML</label>
+            <button
+              onClick={() => navigator.clipboard.writeText(markup)}
+              className="px-2 py-0.5 bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500 rounded transition-colors"
+            >
+              Copiar
+            </button>
+          </div>
+          <textarea
+            readOnly
+            value={markup}
+            rows={Math.min(10, markup.split("\n").length + 1)}
+            className="w-full px-2 py-1 font-mono rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import {
+  RESIZE_FITS,
+  RESIZE_FIT_LABELS,
+  RESIZE_KERNELS,
+  RESIZE_POSITIONS,
+  RESIZE_POSITION_LABELS,
+  ResizeFit,
+  ResizeKernel,
+  ResizePosition,
+  ServerResizeOptions,
+} from "@/lib/resize-options";
+
+interface ServerResizeOptionsPanelProps {
+  options: ServerResizeOptions;
+  onChange: (options: ServerResizeOptions) => void;
+}
+
+export default function ServerResizeOptionsPanel({
+  options,
+  onChange,
+}: ServerResizeOptionsPanelProps) {
+  const setOption = (patch: Partial<ServerResizeOptions>) =>
+    onChange({ ...options, ...patch });
+
+  return (
+    <>
+      <div>
+        <label className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+          Ajuste
+        </label>
+        <select
+          value={options.fit}
+          onChange={(e) => setOption({ fit: e.target.value as ResizeFit })}
+          className="px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+        >
+          {RESIZE_FITS.map((fit) => (
+            <option key={fit} value={fit}>
+              {RESIZE_FIT_LABELS[fit]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+          Anclaje
+        </label>
+        <select
+          value={options.position}
+          onChange={(e) =>
+            setOption({ position: e.target.value as ResizePosition })
+          }
+          className="px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+        >
+          {RESIZE_POSITIONS.map((position) => (
+            <option key={position} value={position}>
+              {RESIZE_POSITION_LABELS[position]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+          Fondo
+        </label>
+        <div className="flex items-center gap-1">
+          <input
+            type="color"
+            value={
+              options.background === "transparent"
+                ? "#ffffff"
+                : options.background
+            }
+            onChange={(e) => setOption({ background: e.target.value })}
+            disabled={options.background === "transparent"}
+            className="w-8 h-6 rounded disabled:opacity-50"
+          />
+          <input
+            type="checkbox"
+            id="transparentBackground"
+            checked={options.background === "transparent"}
+            onChange={(e) =>
+              setOption({
+                background: e.target.checked ? "transparent" : "#ffffff",
+              })
+            }
+            className="rounded"
+          />
+          <label
+            htmlFor="transparentBackground"
+            className="text-xs text-gray-700 dark:text-gray-300"
+          >
+            Transparente
+          </label>
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+          Kernel
+        </label>
+        <select
+          value={options.kernel}
+          onChange={(e) =>
+            setOption({ kernel: e.target.value as ResizeKernel })
+          }
+          className="px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+        >
+          {RESIZE_KERNELS.map((kernel) => (
+            <option key={kernel} value={kernel}>
+              {kernel}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-center gap-2 pb-1">
+        <input
+          type="checkbox"
+          id="withoutEnlargement"
+          checked={options.withoutEnlargement}
+          onChange={(e) => setOption({ withoutEnlargement: e.target.checked })}
+          className="rounded"
+        />
+        <label
+          htmlFor="withoutEnlargement"
+          className="text-xs text-gray-700 dark:text-gray-300"
+        >
+          No ampliar
+        </label>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  PresetFit,
+  SIZE_PRESETS,
+  SizePreset,
+  USER_PRESET_GROUP,
+  describePreset,
+  loadUserPresets,
+  saveUserPresets,
+} from "@/lib/size-presets";
+
+interface SizePresetPickerProps {
+  onApply: (preset: SizePreset) => void;
+  // Medidas actuales que se guardan como preset propio; sin ellas no se
+  // ofrece guardar.
+  current?: { width: number | ""; height: number | ""; fit: PresetFit };
+}
+
+export default function SizePresetPicker({
+  onApply,
+  current,
+}: SizePresetPickerProps) {
+  const [userPresets, setUserPresets] = useState<SizePreset[]>([]);
+  const [selectedId, setSelectedId] = useState("");
+  const [newName, setNewName] = useState("");
+
+  useEffect(() => {
+    setUserPresets(loadUserPresets());
+  }, []);
+
+  const presets = [...SIZE_PRESETS, ...userPresets];
+  const groups = Array.from(new Set(presets.map((preset) => preset.group)));
+  const selected = userPresets.find((preset) => preset.id === selectedId);
+
+  const updateUserPresets = (next: SizePreset[]) => {
+    setUserPresets(next);
+    saveUserPresets(next);
+  };
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    const preset = presets.find((candidate) => candidate.id === id);
+    if (preset) onApply(preset);
+  };
+
+  const canSave =
+    !!current &&
+    typeof current.width === "number" &&
+    current.width > 0 &&
+    typeof current.height === "number" &&
+    current.height > 0 &&
+    newName.trim() !== "";
+
+  const handleSave = () => {
+    if (!canSave || !current) return;
+    const preset: SizePreset = {
+      id: `user-${Date.now()}`,
+      group: USER_PRESET_GROUP,
+      label: newName.trim(),
+      width: current.width as number,
+      height: current.height as number,
+      fit: current.fit,
+    };
+    updateUserPresets([...userPresets, preset]);
+    setSelectedId(preset.id);
+    setNewName("");
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    updateUserPresets(userPresets.filter((preset) => preset !== selected));
+    setSelectedId("");
+  };
+
+  return (
+    <div className="flex flex-col gap-1 text-xs text-gray-700 dark:text-gray-300">
+      <div className="flex items-center gap-1">
+        <select
+          value={selectedId}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="flex-1 min-w-0 px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+        >
+          <option value="">Elegir preset…</option>
+          {groups.map((group) => (
+            <optgroup key={group} label={group}>
+              {presets
+                .filter((preset) => preset.group === group)
+                .map((preset) => (
+                  <option key={preset.id} value={preset.id}>
+                    {preset.label} ({describePreset(preset)})
+                  </option>
+                ))}
+            </optgroup>
+          ))}
+        </select>
+        {selected && (
+          <button
+            onClick={handleDelete}
+            title="Eliminar preset"
+            className="px-1.5 py-0.5 bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500 rounded transition-colors"
+          >
+            🗑
+          </button>
+        )}
+      </div>
+      {current && (
+        <div className="flex items-center gap-1">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSave()}
+            placeholder="Nombre del preset"
+            className="flex-1 min-w-0 px-2 py-0.5 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            title="Guardar las medidas y el ajuste actuales"
+            className="px-2 py-0.5 bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500 disabled:opacity-50 rounded transition-colors"
+          >
+            Guardar
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { readImageSize } from "@/lib/sniff";
+
+// El doble del recuadro para que se vea nítido en pantallas de alta densidad.
+const PREVIEW_SIZE = 80;
+
+// Basta para llegar al SOF de un JPEG aunque lleve delante una miniatura EXIF.
+const HEADER_BYTES = 64 * 1024;
+
+// Miniaturas que se decodifican a la vez; el resto espera turno.
+const MAX_ACTIVE_PREVIEWS = 4;
+
+let activePreviews = 0;
+const waitingPreviews: Array<() => void> = [];
+
+const withPreviewSlot = async <T,>(task: () => Promise<T>): Promise<T> => {
+  if (activePreviews >= MAX_ACTIVE_PREVIEWS) {
+    await new Promise<void>((resolve) => waitingPreviews.push(resolve));
+  } else {
+    activePreviews++;
+  }
+  try {
+    return await task();
+  } finally {
+    const next = waitingPreviews.shift();
+    if (next) next();
+    else activePreviews--;
+  }
+};
+
+// Con las medidas de la cabecera se decodifica ya al tamaño de la miniatura.
+// Se fija solo el lado menor y el navegador calcula el otro, así la
+// proporción se mantiene aunque la orientación EXIF gire la imagen.
+const decodeAtPreviewSize = async (file: File): Promise<ImageBitmap> => {
+  const head = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  const size = readImageSize(head);
+  if (!size || Math.min(size.width, size.height) <= PREVIEW_SIZE) {
+    return createImageBitmap(file);
+  }
+  return createImageBitmap(
+    file,
+    size.width <= size.height
+      ? { resizeWidth: PREVIEW_SIZE, resizeQuality: "high" }
+      : { resizeHeight: PREVIEW_SIZE, resizeQuality: "high" }
+  );
+};
+
+// Dibuja una miniatura recortada como object-cover para que la lista no
+// mantenga decodificadas las imágenes a tamaño completo.
+const createPreview = async (file: File): Promise<Blob> => {
+  const bitmap = await decodeAtPreviewSize(file);
+  try {
+    const scale = Math.min(
+      1,
+      PREVIEW_SIZE / Math.min(bitmap.width, bitmap.height)
+    );
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(
+      1,
+      Math.round(Math.min(bitmap.width * scale, PREVIEW_SIZE))
+    );
+    canvas.height = Math.max(
+      1,
+      Math.round(Math.min(bitmap.height * scale, PREVIEW_SIZE))
+    );
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("No se pudo obtener el contexto del canvas");
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(
+      bitmap,
+      (canvas.width - bitmap.width * scale) / 2,
+      (canvas.height - bitmap.height * scale) / 2,
+      bitmap.width * scale,
+      bitmap.height * scale
+    );
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/png")
+    );
+    canvas.width = 0;
+    canvas.height = 0;
+    if (!blob) throw new Error("Error al crear el blob");
+    return blob;
+  } finally {
+    bitmap.close();
+  }
+};
+
+interface ThumbnailProps {
+  file: File;
+  onClick?: () => void;
+  title?: string;
+}
+
+export default function Thumbnail({ file, onClick, title }: ThumbnailProps) {
+  const [url, setUrl] = useState<string>();
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | undefined;
+    setUrl(undefined);
+    setFailed(false);
+
+    // Si el navegador no puede generar la miniatura (p. ej. algunos SVG en
+    // Safari) se usa el archivo original y el <img> decide.
+    withPreviewSlot(() =>
+      cancelled ? Promise.resolve(file) : createPreview(file)
+    )
+      .catch(() => file)
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [file]);
+
+  const extension = file.name.includes(".")
+    ? file.name.split(".").pop()?.toUpperCase()
+    : "?";
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={!onClick}
+      title={title}
+      className="w-10 h-10 flex-shrink-0 rounded overflow-hidden bg-gray-200 dark:bg-gray-600 flex items-center justify-center enabled:hover:ring-2 enabled:hover:ring-purple-400 enabled:cursor-zoom-in"
+    >
+      {url && !failed ? (
+        <img
+          src={url}
+          alt={file.name}
+          loading="lazy"
+          decoding="async"
+          onError={() => setFailed(true)}
+          className="w-full h-full object-cover"
+        />
+      ) : (
+        <span className="text-[10px] font-semibold text-gray-500 dark:text-gray-300">
+          {extension}
+        </span>
+      )}
+    </button>
+  );
+}
@@ -0,0 +1,44 @@
+import { ImageErrorBody, ImageErrorCode } from "@/lib/errors";
+
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public code?: ImageErrorCode,
+    public detail?: string
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+// status 0 indica que la petición no llegó a recibir respuesta.
+export const networkError = () =>
+  new ApiError(0, "No se pudo contactar con el servidor");
+
+export const readApiError = async (
+  response: Response,
+  fallbackMessage: string
+): Promise<ApiError> => {
+  const body: Partial<ImageErrorBody> | null = await response
+    .json()
+    .catch(() => null);
+  return new ApiError(
+    response.status,
+    body?.error ?? fallbackMessage,
+    body?.code,
+    body?.detail
+  );
+};
+
+// Solo se reintenta lo que puede salir bien a la segunda: sin respuesta o
+// pasarelas caídas. Un 500 de procesado se repetiría igual, y el 429 ya lo
+// reintenta `retryWhileBusy` respetando Retry-After.
+const TRANSIENT_STATUSES = [0, 408, 502, 503, 504];
+
+export const isTransientError = (error: unknown) =>
+  error instanceof ApiError && TRANSIENT_STATUSES.includes(error.status);
+
+export const isServerBusyError = (error: unknown) =>
+  error instanceof ApiError &&
+  (error.status === 429 || error.code === "SERVER_BUSY");
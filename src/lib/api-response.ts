@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { ImageError, ImageErrorBody, fromSharpError } from "@/lib/errors";
+
+export const errorResponse = (
+  error: unknown,
+  logMessage: string,
+  fallbackMessage = "Error al procesar la imagen"
+) => {
+  const imageError =
+    error instanceof ImageError ? error : fromSharpError(error);
+  if (imageError) {
+    return NextResponse.json<ImageErrorBody>(
+      {
+        error: imageError.message,
+        code: imageError.code,
+        detail: imageError.detail,
+      },
+      {
+        status: imageError.status,
+        headers:
+          imageError.retryAfter !== undefined
+            ? { "Retry-After": String(imageError.retryAfter) }
+            : undefined,
+      }
+    );
+  }
+
+  // El mensaje interno solo va al registro; puede incluir rutas del servidor.
+  console.error(logMessage, error);
+  return NextResponse.json<ImageErrorBody>(
+    { error: fallbackMessage, code: "PROCESSING_FAILED" },
+    { status: 500 }
+  );
+};
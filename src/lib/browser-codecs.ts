@@ -0,0 +1,155 @@
+import {
+  DEFAULT_ENCODER_OPTIONS,
+  EncoderOptions,
+  toEncoderFormat,
+} from "@/lib/encoder-options";
+import { MIME_TYPES, OutputFormat } from "@/lib/image-formats";
+
+// Codificadores del motor del navegador: WASM (@jsquash) para PNG, JPG, WebP,
+// AVIF y JPEG XL, y JavaScript puro para GIF y TIFF. Se importan al usarse
+// para no cargar los .wasm con la página ni con los workers.
+//
+// HEIF no tiene codificador para el navegador. Tampoco tienen equivalente el
+// esfuerzo y el entrelazado de GIF, la compresión de TIFF (sale sin
+// comprimir) ni la calidad de la paleta PNG (siempre hasta 256 colores).
+export const BROWSER_OUTPUT_FORMATS: readonly OutputFormat[] = [
+  "png",
+  "jpg",
+  "webp",
+  "gif",
+  "tiff",
+  "avif",
+  "jxl",
+];
+
+const WASM_FORMATS: readonly OutputFormat[] = [
+  "png",
+  "jpg",
+  "webp",
+  "avif",
+  "jxl",
+];
+
+export const canEncodeInBrowser = (format: OutputFormat) =>
+  BROWSER_OUTPUT_FORMATS.includes(format) &&
+  (typeof WebAssembly === "object" || !WASM_FORMATS.includes(format));
+
+// Reduce a una paleta de 256 colores y devuelve la imagen con los colores ya
+// sustituidos; oxipng la guarda después como PNG indexado.
+const toPaletteColors = async (image: ImageData): Promise<ImageData> => {
+  const { quantize, applyPalette } = await import("gifenc");
+  const palette = quantize(image.data, 256, { format: "rgba4444" });
+  const index = applyPalette(image.data, palette, "rgba4444");
+  const data = new Uint8ClampedArray(image.data.length);
+  index.forEach((colorIndex, pixel) => {
+    const color = palette[colorIndex];
+    data.set(color.length === 4 ? color : [...color, 255], pixel * 4);
+  });
+  // oxipng solo trata como píxeles lo que es un ImageData de verdad.
+  return new ImageData(data, image.width, image.height);
+};
+
+const encodeGif = async (image: ImageData) => {
+  const { GIFEncoder, quantize, applyPalette } = await import("gifenc");
+  const palette = quantize(image.data, 256, {
+    format: "rgba4444",
+    oneBitAlpha: true,
+  });
+  const index = applyPalette(image.data, palette, "rgba4444");
+  const transparentIndex = palette.findIndex((color) => color[3] === 0);
+  const gif = GIFEncoder();
+  gif.writeFrame(index, image.width, image.height, {
+    palette,
+    transparent: transparentIndex >= 0,
+    transparentIndex: Math.max(0, transparentIndex),
+  });
+  gif.finish();
+  return gif.bytes();
+};
+
+// Sin opción explícita se usan los valores por defecto del servidor (los de
+// la app y, si no los hay, los de sharp) para que el resultado no dependa del
+// motor que haya convertido.
+const encodePixels = async (
+  image: ImageData,
+  format: OutputFormat,
+  options: EncoderOptions
+): Promise<ArrayBuffer | Uint8Array<ArrayBuffer>> => {
+  const merged: EncoderOptions = {
+    ...DEFAULT_ENCODER_OPTIONS[toEncoderFormat(format)!],
+    ...options,
+  };
+
+  switch (format) {
+    case "png": {
+      const { default: optimise } = await import("@jsquash/oxipng/optimise");
+      // Como en sharp, una calidad activa la paleta salvo que se desactive.
+      const palette = options.palette ?? merged.quality !== undefined;
+      return optimise(palette ? await toPaletteColors(image) : image, {
+        // Los niveles 5 y 6 de oxipng tardan demasiado en WASM.
+        level: Math.round(((merged.compressionLevel ?? 6) * 4) / 9),
+        interlace: !!merged.progressive,
+      });
+    }
+    case "jpg": {
+      const { default: encode } = await import("@jsquash/jpeg/encode");
+      return encode(image, {
+        quality: merged.quality,
+        progressive: !!merged.progressive,
+        auto_subsample: false,
+        chroma_subsample: merged.chromaSubsampling === "4:4:4" ? 1 : 2,
+      });
+    }
+    case "webp": {
+      const { default: encode } = await import("@jsquash/webp/encode");
+      return encode(image, {
+        quality: merged.quality,
+        lossless: merged.lossless ? 1 : 0,
+        method: merged.effort ?? 4,
+      });
+    }
+    case "avif": {
+      const { default: encode } = await import("@jsquash/avif/encode");
+      return encode(image, {
+        quality: merged.lossless ? 100 : merged.quality ?? 50,
+        lossless: !!merged.lossless,
+        // speed va al revés que el esfuerzo de sharp: 0 es el más lento.
+        speed: 10 - (merged.effort ?? 4),
+        subsample: merged.chromaSubsampling === "4:2:0" ? 1 : 3,
+      });
+    }
+    case "jxl": {
+      const { default: encode } = await import("@jsquash/jxl/encode");
+      return encode(image, {
+        quality: merged.quality ?? 75,
+        lossless: !!merged.lossless,
+        effort: merged.effort ?? 7,
+      });
+    }
+    case "gif":
+      return encodeGif(image);
+    case "tiff": {
+      const { encodeImage } = await import("utif");
+      return encodeImage(
+        new Uint8Array(
+          image.data.buffer,
+          image.data.byteOffset,
+          image.data.byteLength
+        ),
+        image.width,
+        image.height
+      );
+    }
+    default:
+      throw new Error(`El navegador no puede generar ${format.toUpperCase()}`);
+  }
+};
+
+export const encodeImageData = async (
+  image: ImageData,
+  format: OutputFormat,
+  options: EncoderOptions
+): Promise<Blob> =>
+  new Blob([await encodePixels(image, format, options)], {
+    type: MIME_TYPES[format],
+  });
@@ -0,0 +1,70 @@
+import { canEncodeInBrowser } from "@/lib/browser-codecs";
+import { EncoderOptions } from "@/lib/encoder-options";
+import { MIME_TYPES, OUTPUT_FORMATS, OutputFormat } from "@/lib/image-formats";
+import { processImage } from "@/lib/worker-pool";
+
+export type ConversionEngine = "server" | "browser";
+
+export const ENGINE_LABELS: Record<ConversionEngine, string> = {
+  server: "Servidor",
+  browser: "Navegador",
+};
+
+let canvasSupportPromise: Promise<Record<OutputFormat, boolean>> | null = null;
+
+// Formatos que sabe generar el canvas, que es lo que usan las herramientas de
+// redimensionado. toBlob devuelve PNG cuando el navegador no sabe codificar el
+// tipo pedido, así que se comprueba el tipo del resultado con una imagen
+// mínima.
+export const getCanvasFormatSupport = (): Promise<
+  Record<OutputFormat, boolean>
+> => {
+  if (!canvasSupportPromise) {
+    const canvas = document.createElement("canvas");
+    canvas.width = 1;
+    canvas.height = 1;
+    canvasSupportPromise = Promise.all(
+      OUTPUT_FORMATS.map(
+        (format) =>
+          new Promise<boolean>((resolve) =>
+            canvas.toBlob(
+              (blob) => resolve(blob?.type === MIME_TYPES[format]),
+              MIME_TYPES[format]
+            )
+          )
+      )
+    ).then(
+      (results) =>
+        Object.fromEntries(
+          OUTPUT_FORMATS.map((format, i) => [format, results[i]])
+        ) as Record<OutputFormat, boolean>
+    );
+  }
+  return canvasSupportPromise;
+};
+
+// Formatos que el conversor sabe generar con los códecs de browser-codecs.
+export const getBrowserFormatSupport = (): Record<OutputFormat, boolean> =>
+  Object.fromEntries(
+    OUTPUT_FORMATS.map((format) => [format, canEncodeInBrowser(format)])
+  ) as Record<OutputFormat, boolean>;
+
+// La decodificación y los códecs corren en los workers cuando los hay, para
+// no bloquear la interfaz con los codificadores WASM.
+export const convertInBrowser = async (
+  file: File,
+  format: OutputFormat,
+  options: EncoderOptions
+): Promise<Blob> => {
+  if (!canEncodeInBrowser(format)) {
+    throw new Error(`El navegador no puede generar ${format.toUpperCase()}`);
+  }
+
+  const { blob } = await processImage({
+    type: "convert",
+    file,
+    format,
+    options,
+  });
+  return blob;
+};
@@ -0,0 +1,457 @@
+import {
+  ClientResizeOptions,
+  ResizeLayout,
+  ResizeTarget,
+  computeResizeLayout,
+} from "@/lib/client-resize";
+import { encodeImageData } from "@/lib/browser-codecs";
+import { EncoderOptions } from "@/lib/encoder-options";
+import { OutputFormat } from "@/lib/image-formats";
+import { isFilterAlgorithm, resamplePixels, unsharpMask } from "@/lib/resample";
+
+// Este módulo se ejecuta tanto en los workers como en el hilo principal, así
+// que solo usa APIs disponibles en ambos salvo en los respaldos explícitos.
+
+type AnyCanvas = OffscreenCanvas | HTMLCanvasElement;
+type AnyContext = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+type DrawSource = ImageBitmap | HTMLImageElement | AnyCanvas;
+type ImageSource = ImageBitmap | HTMLImageElement;
+
+export interface ResizeTask {
+  type: "resize";
+  file: Blob;
+  target: ResizeTarget;
+  options: ClientResizeOptions;
+  mime: string;
+  quality: number;
+}
+
+export interface CompressTask {
+  type: "compress";
+  file: Blob;
+  quality: number;
+}
+
+export interface CollageCell {
+  file: Blob;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CollageTask {
+  type: "collage";
+  cells: CollageCell[];
+  width: number;
+  height: number;
+  background: string;
+  // "contain" encaja la imagen entera en la celda sobre el fondo.
+  fit: "cover" | "contain";
+}
+
+export interface ConvertTask {
+  type: "convert";
+  file: Blob;
+  format: OutputFormat;
+  options: EncoderOptions;
+}
+
+export type ImageTask = ResizeTask | CompressTask | CollageTask | ConvertTask;
+
+export interface ImageTaskResult {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+const createCanvas = (width: number, height: number): AnyCanvas => {
+  if (typeof OffscreenCanvas !== "undefined") {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const getContext = (canvas: AnyCanvas): AnyContext => {
+  const ctx = canvas.getContext("2d") as AnyContext | null;
+  if (!ctx) throw new Error("No se pudo obtener el contexto del canvas");
+  return ctx;
+};
+
+// Encoge el lienzo tras codificar para que el navegador libere su memoria
+// sin esperar al recolector.
+const encodeCanvas = async (
+  canvas: AnyCanvas,
+  type: string,
+  quality?: number
+): Promise<Blob> => {
+  try {
+    if ("convertToBlob" in canvas) {
+      return await canvas.convertToBlob({ type, quality });
+    }
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, type, quality)
+    );
+    if (!blob) throw new Error("Error al crear el blob");
+    return blob;
+  } finally {
+    canvas.width = 0;
+    canvas.height = 0;
+  }
+};
+
+// Distingue las imágenes que este contexto no sabe abrir de los fallos al
+// dibujar o codificar, que no merece la pena repetir.
+export class DecodeError extends Error {
+  constructor(message = "No se pudo decodificar la imagen") {
+    super(message);
+    this.name = "DecodeError";
+  }
+}
+
+const decodeImage = async (file: Blob): Promise<ImageSource> => {
+  try {
+    return await createImageBitmap(file);
+  } catch {
+    // Safari y algunos SVG solo se pueden abrir con un <img>, que no existe
+    // dentro de un worker.
+    if (typeof document === "undefined") throw new DecodeError();
+    const url = URL.createObjectURL(file);
+    try {
+      const image = new Image();
+      image.src = url;
+      await image.decode();
+      return image;
+    } catch {
+      throw new DecodeError();
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+};
+
+const releaseImage = (image: ImageSource) => {
+  if ("close" in image) image.close();
+};
+
+const STRIP_ROWS = 256;
+
+// Lee el alfa por franjas para no copiar la imagen entera de golpe y se
+// detiene en el primer píxel no opaco.
+export const hasTransparency = (
+  ctx: AnyContext,
+  width: number,
+  height: number
+): boolean => {
+  for (let top = 0; top < height; top += STRIP_ROWS) {
+    const rows = Math.min(STRIP_ROWS, height - top);
+    const data = ctx.getImageData(0, top, width, rows).data;
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] < 255) return true;
+    }
+  }
+  return false;
+};
+
+const SHARPEN_THRESHOLD = 2;
+
+// Reduce a la mitad mientras quede por encima del doble del destino, de modo
+// que cada paso del suavizado del navegador mezcle todos los píxeles.
+const drawInSteps = (
+  ctx: AnyContext,
+  image: ImageSource,
+  { source, dest }: ResizeLayout,
+  progressive: boolean
+) => {
+  let current: DrawSource = image;
+  let { x, y, width, height } = source;
+
+  while (progressive && width / 2 >= dest.width && height / 2 >= dest.height) {
+    const step = createCanvas(
+      Math.max(dest.width, Math.round(width / 2)),
+      Math.max(dest.height, Math.round(height / 2))
+    );
+    const stepCtx = getContext(step);
+    stepCtx.imageSmoothingEnabled = true;
+    stepCtx.imageSmoothingQuality = "high";
+    stepCtx.drawImage(
+      current,
+      x,
+      y,
+      width,
+      height,
+      0,
+      0,
+      step.width,
+      step.height
+    );
+    if (current !== image) {
+      (current as AnyCanvas).width = 0;
+    }
+    current = step;
+    x = 0;
+    y = 0;
+    width = step.width;
+    height = step.height;
+  }
+
+  ctx.drawImage(
+    current,
+    x,
+    y,
+    width,
+    height,
+    dest.x,
+    dest.y,
+    dest.width,
+    dest.height
+  );
+  if (current !== image) {
+    (current as AnyCanvas).width = 0;
+  }
+};
+
+// Lee el recorte a resolución original y lo remuestrea en JavaScript, así el
+// resultado no depende del navegador.
+const drawFiltered = (
+  ctx: AnyContext,
+  image: ImageSource,
+  { source, dest }: ResizeLayout,
+  algorithm: "lanczos3" | "bicubic"
+) => {
+  const sourceWidth = Math.max(1, Math.round(source.width));
+  const sourceHeight = Math.max(1, Math.round(source.height));
+  const sourceCanvas = createCanvas(sourceWidth, sourceHeight);
+  const sourceCtx = getContext(sourceCanvas);
+  sourceCtx.drawImage(
+    image,
+    source.x,
+    source.y,
+    source.width,
+    source.height,
+    0,
+    0,
+    sourceWidth,
+    sourceHeight
+  );
+  const pixels = sourceCtx.getImageData(0, 0, sourceWidth, sourceHeight);
+  sourceCanvas.width = 0;
+
+  const resultCanvas = createCanvas(dest.width, dest.height);
+  const resultCtx = getContext(resultCanvas);
+  const resampled = resultCtx.createImageData(dest.width, dest.height);
+  resamplePixels(pixels, resampled, algorithm);
+  resultCtx.putImageData(resampled, 0, 0);
+  // drawImage compone sobre el relleno; putImageData lo sustituiría.
+  ctx.drawImage(resultCanvas, dest.x, dest.y);
+  resultCanvas.width = 0;
+};
+
+const runResize = async (task: ResizeTask): Promise<ImageTaskResult> => {
+  const image = await decodeImage(task.file);
+  try {
+    const layout = computeResizeLayout(
+      image.width,
+      image.height,
+      task.target,
+      task.options
+    );
+    const canvas = createCanvas(layout.width, layout.height);
+    const ctx = getContext(canvas);
+
+    // JPG no admite transparencia: el relleno transparente sale blanco.
+    if (layout.padded) {
+      const transparent = task.options.background === "transparent";
+      if (!transparent || task.mime === "image/jpeg") {
+        ctx.fillStyle = transparent ? "#ffffff" : task.options.background;
+        ctx.fillRect(0, 0, layout.width, layout.height);
+      }
+    }
+
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = "high";
+    const { algorithm } = task.options;
+    if (isFilterAlgorithm(algorithm)) {
+      drawFiltered(ctx, image, layout, algorithm);
+    } else {
+      drawInSteps(ctx, image, layout, algorithm === "steps");
+    }
+
+    if (task.options.sharpen) {
+      const { x, y, width, height } = layout.dest;
+      const pixels = ctx.getImageData(x, y, width, height);
+      unsharpMask(pixels, {
+        amount: task.options.sharpenAmount,
+        radius: task.options.sharpenRadius,
+        threshold: SHARPEN_THRESHOLD,
+      });
+      ctx.putImageData(pixels, x, y);
+    }
+
+    return {
+      blob: await encodeCanvas(canvas, task.mime, task.quality),
+      width: layout.width,
+      height: layout.height,
+    };
+  } finally {
+    releaseImage(image);
+  }
+};
+
+const runCompress = async (task: CompressTask): Promise<ImageTaskResult> => {
+  const image = await decodeImage(task.file);
+  const { width, height } = image;
+  const canvas = createCanvas(width, height);
+  const ctx = getContext(canvas);
+
+  try {
+    ctx.imageSmoothingEnabled = task.quality > 0.5;
+    ctx.imageSmoothingQuality =
+      task.quality > 0.7 ? "high" : task.quality > 0.4 ? "medium" : "low";
+    ctx.drawImage(image, 0, 0);
+  } finally {
+    releaseImage(image);
+  }
+
+  const originalType = task.file.type.toLowerCase();
+  let outputMimeType = "image/jpeg";
+  let outputQuality = task.quality;
+
+  if (originalType === "image/png") {
+    if (hasTransparency(ctx, width, height)) {
+      outputMimeType = "image/png";
+      outputQuality = Math.max(0.1, task.quality * 0.9);
+    }
+  } else if (originalType === "image/webp") {
+    outputMimeType = "image/webp";
+  }
+
+  return {
+    blob: await encodeCanvas(canvas, outputMimeType, outputQuality),
+    width,
+    height,
+  };
+};
+
+const drawCell = (
+  ctx: AnyContext,
+  image: ImageSource,
+  cell: CollageCell,
+  fit: CollageTask["fit"]
+) => {
+  if (fit === "contain") {
+    const scale = Math.min(
+      cell.width / image.width,
+      cell.height / image.height
+    );
+    const width = Math.round(image.width * scale);
+    const height = Math.round(image.height * scale);
+    ctx.drawImage(
+      image,
+      cell.x + Math.round((cell.width - width) / 2),
+      cell.y + Math.round((cell.height - height) / 2),
+      width,
+      height
+    );
+    return;
+  }
+
+  const imageAspect = image.width / image.height;
+  const cellAspect = cell.width / cell.height;
+  let sourceX = 0;
+  let sourceY = 0;
+  let sourceWidth = image.width;
+  let sourceHeight = image.height;
+
+  if (imageAspect > cellAspect) {
+    sourceWidth = image.height * cellAspect;
+    sourceX = (image.width - sourceWidth) / 2;
+  } else {
+    sourceHeight = image.width / cellAspect;
+    sourceY = (image.height - sourceHeight) / 2;
+  }
+
+  ctx.drawImage(
+    image,
+    sourceX,
+    sourceY,
+    sourceWidth,
+    sourceHeight,
+    cell.x,
+    cell.y,
+    cell.width,
+    cell.height
+  );
+};
+
+const runCollage = async (task: CollageTask): Promise<ImageTaskResult> => {
+  const canvas = createCanvas(task.width, task.height);
+  const ctx = getContext(canvas);
+  ctx.fillStyle = task.background;
+  ctx.fillRect(0, 0, task.width, task.height);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = "high";
+
+  // Se decodifica una celda cada vez para no tener todo el lote en memoria.
+  try {
+    for (const cell of task.cells) {
+      const image = await decodeImage(cell.file);
+      drawCell(ctx, image, cell, task.fit);
+      releaseImage(image);
+    }
+  } catch (error) {
+    canvas.width = 0;
+    throw error;
+  }
+
+  return {
+    blob: await encodeCanvas(canvas, "image/png"),
+    width: task.width,
+    height: task.height,
+  };
+};
+
+// Solo se conserva el primer fotograma y se descartan los metadatos.
+const runConvert = async (task: ConvertTask): Promise<ImageTaskResult> => {
+  const image = await decodeImage(task.file);
+  const { width, height } = image;
+  const canvas = createCanvas(width, height);
+  const ctx = getContext(canvas);
+
+  try {
+    // JPEG no admite transparencia: se compone sobre fondo blanco.
+    if (task.format === "jpg") {
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(0, 0, width, height);
+    }
+    ctx.drawImage(image, 0, 0);
+  } finally {
+    releaseImage(image);
+  }
+
+  const pixels = ctx.getImageData(0, 0, width, height);
+  canvas.width = 0;
+  canvas.height = 0;
+
+  return {
+    blob: await encodeImageData(pixels, task.format, task.options),
+    width,
+    height,
+  };
+};
+
+export const runImageTask = (task: ImageTask): Promise<ImageTaskResult> => {
+  switch (task.type) {
+    case "resize":
+      return runResize(task);
+    case "compress":
+      return runCompress(task);
+    case "collage":
+      return runCollage(task);
+    case "convert":
+      return runConvert(task);
+  }
+};
@@ -0,0 +1,219 @@
+import { ResampleAlgorithm } from "@/lib/resample";
+import { ResizePosition } from "@/lib/resize-options";
+
+export const CLIENT_RESIZE_MODES = [
+  "dimensions",
+  "percentage",
+  "longest",
+  "shortest",
+  "cover",
+  "contain",
+] as const;
+export type ClientResizeMode = (typeof CLIENT_RESIZE_MODES)[number];
+
+export const CLIENT_RESIZE_MODE_LABELS: Record<ClientResizeMode, string> = {
+  dimensions: "Ancho y alto",
+  percentage: "Porcentaje",
+  longest: "Lado mayor",
+  shortest: "Lado menor",
+  cover: "Cubrir y recortar",
+  contain: "Contener con relleno",
+};
+
+// Estos modos escalan con su propio valor y no usan el ancho ni el alto.
+export const usesTargetSize = (mode: ClientResizeMode) =>
+  mode !== "percentage" && mode !== "longest" && mode !== "shortest";
+
+export type ResizeAnchor = Exclude<ResizePosition, "entropy" | "attention">;
+
+// Cuadrícula de 3×3 en orden de lectura, para pintarla tal cual.
+export const RESIZE_ANCHORS: ResizeAnchor[] = [
+  "northwest",
+  "north",
+  "northeast",
+  "west",
+  "centre",
+  "east",
+  "southwest",
+  "south",
+  "southeast",
+];
+
+const ANCHOR_OFFSETS: Record<ResizeAnchor, [number, number]> = {
+  northwest: [0, 0],
+  north: [0.5, 0],
+  northeast: [1, 0],
+  west: [0, 0.5],
+  centre: [0.5, 0.5],
+  east: [1, 0.5],
+  southwest: [0, 1],
+  south: [0.5, 1],
+  southeast: [1, 1],
+};
+
+export interface ClientResizeOptions {
+  mode: ClientResizeMode;
+  percentage: number;
+  edge: number;
+  anchor: ResizeAnchor;
+  background: string;
+  withoutEnlargement: boolean;
+  algorithm: ResampleAlgorithm;
+  sharpen: boolean;
+  sharpenAmount: number;
+  sharpenRadius: number;
+}
+
+export const DEFAULT_CLIENT_RESIZE_OPTIONS: ClientResizeOptions = {
+  mode: "dimensions",
+  percentage: 50,
+  edge: 1920,
+  anchor: "centre",
+  background: "transparent",
+  withoutEnlargement: false,
+  // Lanczos da el mismo resultado en todos los navegadores; el suavizado del
+  // navegador es más rápido, pero cada motor lo hace a su manera.
+  algorithm: "lanczos3",
+  sharpen: false,
+  sharpenAmount: 0.5,
+  sharpenRadius: 1,
+};
+
+export interface ResizeTarget {
+  width?: number;
+  height?: number;
+  lockRatio: boolean;
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ResizeLayout {
+  width: number;
+  height: number;
+  source: Rect;
+  dest: Rect;
+  padded: boolean;
+}
+
+const atLeastOne = (value: number) => Math.max(1, Math.round(value));
+
+const scaledLayout = (
+  sourceWidth: number,
+  sourceHeight: number,
+  scaleX: number,
+  scaleY: number = scaleX
+): ResizeLayout => {
+  const width = atLeastOne(sourceWidth * scaleX);
+  const height = atLeastOne(sourceHeight * scaleY);
+  return {
+    width,
+    height,
+    source: { x: 0, y: 0, width: sourceWidth, height: sourceHeight },
+    dest: { x: 0, y: 0, width, height },
+    padded: false,
+  };
+};
+
+// Calcula el lienzo de salida y qué parte del original se dibuja en él.
+export const computeResizeLayout = (
+  sourceWidth: number,
+  sourceHeight: number,
+  target: ResizeTarget,
+  options: ClientResizeOptions
+): ResizeLayout => {
+  const limit = (scale: number) =>
+    options.withoutEnlargement ? Math.min(scale, 1) : scale;
+
+  switch (options.mode) {
+    case "percentage":
+      return scaledLayout(
+        sourceWidth,
+        sourceHeight,
+        limit(options.percentage / 100)
+      );
+    case "longest":
+      return scaledLayout(
+        sourceWidth,
+        sourceHeight,
+        limit(options.edge / Math.max(sourceWidth, sourceHeight))
+      );
+    case "shortest":
+      return scaledLayout(
+        sourceWidth,
+        sourceHeight,
+        limit(options.edge / Math.min(sourceWidth, sourceHeight))
+      );
+  }
+
+  const { width, height } = target;
+
+  if (options.mode === "dimensions" || !width || !height) {
+    if (!target.lockRatio && options.mode === "dimensions") {
+      return scaledLayout(
+        sourceWidth,
+        sourceHeight,
+        limit((width || sourceWidth) / sourceWidth),
+        limit((height || sourceHeight) / sourceHeight)
+      );
+    }
+    const scales = [
+      width ? width / sourceWidth : Infinity,
+      height ? height / sourceHeight : Infinity,
+    ];
+    const scale = Math.min(...scales);
+    return scaledLayout(
+      sourceWidth,
+      sourceHeight,
+      limit(Number.isFinite(scale) ? scale : 1)
+    );
+  }
+
+  const [anchorX, anchorY] = ANCHOR_OFFSETS[options.anchor];
+
+  if (options.mode === "cover") {
+    let scale = Math.max(width / sourceWidth, height / sourceHeight);
+    let boxWidth = width;
+    let boxHeight = height;
+    // Sin ampliar, el recorte conserva la proporción pedida pero más pequeño.
+    if (options.withoutEnlargement && scale > 1) {
+      boxWidth = atLeastOne(width / scale);
+      boxHeight = atLeastOne(height / scale);
+      scale = 1;
+    }
+    const cropWidth = Math.min(sourceWidth, boxWidth / scale);
+    const cropHeight = Math.min(sourceHeight, boxHeight / scale);
+    return {
+      width: boxWidth,
+      height: boxHeight,
+      source: {
+        x: (sourceWidth - cropWidth) * anchorX,
+        y: (sourceHeight - cropHeight) * anchorY,
+        width: cropWidth,
+        height: cropHeight,
+      },
+      dest: { x: 0, y: 0, width: boxWidth, height: boxHeight },
+      padded: false,
+    };
+  }
+
+  const scale = limit(Math.min(width / sourceWidth, height / sourceHeight));
+  const drawWidth = atLeastOne(sourceWidth * scale);
+  const drawHeight = atLeastOne(sourceHeight * scale);
+  return {
+    width,
+    height,
+    source: { x: 0, y: 0, width: sourceWidth, height: sourceHeight },
+    dest: {
+      x: Math.round((width - drawWidth) * anchorX),
+      y: Math.round((height - drawHeight) * anchorY),
+      width: drawWidth,
+      height: drawHeight,
+    },
+    padded: drawWidth !== width || drawHeight !== height,
+  };
+};
@@ -0,0 +1,55 @@
+import { FORMAT_LABELS, OutputFormat } from "@/lib/image-formats";
+
+export const COMPRESS_FORMATS = ["auto", "jpg", "png", "webp", "avif"] as const;
+export type CompressFormat = (typeof COMPRESS_FORMATS)[number];
+
+export const COMPRESS_FORMAT_LABELS: Record<CompressFormat, string> = {
+  auto: "Mismo que el original",
+  jpg: "JPG (mozjpeg)",
+  png: "PNG (paleta)",
+  webp: "WEBP",
+  avif: "AVIF",
+};
+
+// Rangos que acepta /api/compress; el formulario usa los mismos límites.
+export const COMPRESS_QUALITY_RANGE: [number, number] = [1, 100];
+export const COMPRESS_EFFORT_RANGE: [number, number] = [0, 10];
+export const COMPRESS_MAX_DIMENSION_RANGE: [number, number] = [1, 16384];
+export const COMPRESS_TARGET_BYTES_RANGE: [number, number] = [1024, 1024 ** 3];
+
+export interface ServerCompressOptions {
+  format: CompressFormat;
+  quality: number;
+  effort?: number;
+  maxDimension?: number;
+  targetBytes?: number;
+}
+
+export interface AppliedCompression {
+  format: OutputFormat;
+  quality: number;
+  effort?: number;
+  mozjpeg?: boolean;
+  palette?: boolean;
+  width: number;
+  height: number;
+  iterations: number;
+  targetBytes?: number;
+  hitTarget?: boolean;
+}
+
+export const describeAppliedCompression = (applied: AppliedCompression) =>
+  [
+    FORMAT_LABELS[applied.format],
+    `calidad ${applied.quality}`,
+    applied.effort !== undefined && `esfuerzo ${applied.effort}`,
+    applied.mozjpeg && "mozjpeg",
+    applied.palette && "paleta",
+    `${applied.width}×${applied.height}`,
+    applied.targetBytes !== undefined &&
+      (applied.hitTarget
+        ? `objetivo alcanzado en ${applied.iterations} intentos`
+        : "objetivo no alcanzable"),
+  ]
+    .filter(Boolean)
+    .join(" • ");
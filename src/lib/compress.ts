@@ -0,0 +1,185 @@
+import sharp from "sharp";
+import {
+  AppliedCompression,
+  COMPRESS_EFFORT_RANGE,
+  COMPRESS_FORMATS,
+  COMPRESS_MAX_DIMENSION_RANGE,
+  COMPRESS_QUALITY_RANGE,
+  COMPRESS_TARGET_BYTES_RANGE,
+  CompressFormat,
+  ServerCompressOptions,
+} from "@/lib/compress-options";
+import { ImageError } from "@/lib/errors";
+import { getOptionRange, toEncoderFormat } from "@/lib/encoder-options";
+import { OutputFormat } from "@/lib/image-formats";
+import { readField } from "@/lib/input";
+import { MAX_INPUT_PIXELS } from "@/lib/limits";
+import { SniffedFormat } from "@/lib/sniff";
+
+const MAX_SEARCH_ITERATIONS = 8;
+
+const parseInteger = (
+  formData: FormData,
+  key: string,
+  min: number,
+  max: number
+): number | undefined => {
+  const raw = readField(formData, key);
+  if (raw === undefined) return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new ImageError(
+      "INVALID_OPTION",
+      `El parámetro "${key}" debe ser un entero entre ${min} y ${max}`
+    );
+  }
+  return value;
+};
+
+export const parseCompressOptions = (
+  formData: FormData
+): ServerCompressOptions => {
+  const format = readField(formData, "format") ?? "auto";
+  if (!(COMPRESS_FORMATS as readonly string[]).includes(format)) {
+    throw new ImageError(
+      "INVALID_FORMAT",
+      `El parámetro "format" debe ser uno de: ${COMPRESS_FORMATS.join(", ")}`
+    );
+  }
+
+  return {
+    format: format as CompressFormat,
+    quality: parseInteger(formData, "quality", ...COMPRESS_QUALITY_RANGE) ?? 75,
+    effort: parseInteger(formData, "effort", ...COMPRESS_EFFORT_RANGE),
+    maxDimension: parseInteger(
+      formData,
+      "maxDimension",
+      ...COMPRESS_MAX_DIMENSION_RANGE
+    ),
+    targetBytes: parseInteger(
+      formData,
+      "targetBytes",
+      ...COMPRESS_TARGET_BYTES_RANGE
+    ),
+  };
+};
+
+const resolveFormat = (
+  requested: CompressFormat,
+  input: SniffedFormat,
+  hasAlpha: boolean
+): OutputFormat => {
+  if (requested !== "auto") return requested;
+  if (input === "jpg" || input === "png" || input === "webp") return input;
+  if (input === "avif") return "avif";
+  return hasAlpha ? "png" : "jpg";
+};
+
+const clampEffort = (format: OutputFormat, effort?: number) => {
+  const range = getOptionRange("effort", toEncoderFormat(format)!);
+  if (effort === undefined || !range) return undefined;
+  return Math.min(Math.max(effort, range[0]), range[1]);
+};
+
+export interface CompressResult {
+  buffer: Buffer;
+  applied: AppliedCompression;
+}
+
+export const compressBuffer = async (
+  buffer: Buffer,
+  inputFormat: SniffedFormat,
+  options: ServerCompressOptions
+): Promise<CompressResult> => {
+  let pipeline = sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+  if (options.maxDimension) {
+    pipeline = pipeline.resize({
+      width: options.maxDimension,
+      height: options.maxDimension,
+      fit: "inside",
+      withoutEnlargement: true,
+    });
+  }
+
+  // Se decodifica una sola vez a píxeles crudos para que la búsqueda de
+  // calidad solo repita la codificación.
+  const { data, info } = await pipeline
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const format = resolveFormat(
+    options.format,
+    inputFormat,
+    info.channels === 4 || info.channels === 2
+  );
+  const effort = clampEffort(format, options.effort);
+
+  const encode = (quality: number) => {
+    const raw = sharp(data, {
+      raw: { width: info.width, height: info.height, channels: info.channels },
+    });
+    switch (format) {
+      case "jpg":
+        return raw.jpeg({ quality, mozjpeg: true }).toBuffer();
+      case "png":
+        return raw.png({ palette: true, quality, effort }).toBuffer();
+      case "webp":
+        return raw.webp({ quality, effort }).toBuffer();
+      default:
+        return raw.avif({ quality, effort }).toBuffer();
+    }
+  };
+
+  const applied: AppliedCompression = {
+    format,
+    quality: options.quality,
+    effort,
+    mozjpeg: format === "jpg" || undefined,
+    palette: format === "png" || undefined,
+    width: info.width,
+    height: info.height,
+    iterations: 1,
+    targetBytes: options.targetBytes,
+  };
+
+  let best = await encode(options.quality);
+
+  if (options.targetBytes !== undefined) {
+    if (best.length <= options.targetBytes) {
+      applied.hitTarget = true;
+    } else {
+      // Búsqueda binaria de la calidad más alta que cabe en el presupuesto.
+      let low = 1;
+      let high = options.quality - 1;
+      let fallback = best;
+      let fallbackQuality = options.quality;
+      applied.hitTarget = false;
+
+      while (low <= high && applied.iterations < MAX_SEARCH_ITERATIONS) {
+        const quality = Math.floor((low + high) / 2);
+        const candidate = await encode(quality);
+        applied.iterations++;
+
+        if (candidate.length <= options.targetBytes) {
+          best = candidate;
+          applied.quality = quality;
+          applied.hitTarget = true;
+          low = quality + 1;
+        } else {
+          if (candidate.length < fallback.length) {
+            fallback = candidate;
+            fallbackQuality = quality;
+          }
+          high = quality - 1;
+        }
+      }
+
+      if (!applied.hitTarget) {
+        best = fallback;
+        applied.quality = fallbackQuality;
+      }
+    }
+  }
+
+  return { buffer: best, applied };
+};
@@ -0,0 +1,134 @@
+import sharp, { Sharp } from "sharp";
+import {
+  EncoderOptions,
+  applyEncoderOptions,
+  parseEncoderOptions,
+  toEncoderFormat,
+} from "@/lib/encoder-options";
+import { ImageError, fromSharpError } from "@/lib/errors";
+import { getFormatSupport } from "@/lib/format-support";
+import {
+  ANIMATED_FORMATS,
+  FORMAT_LABELS,
+  OutputFormat,
+  normalizeFormat,
+} from "@/lib/image-formats";
+import { MAX_INPUT_PIXELS } from "@/lib/limits";
+import {
+  DEFAULT_METADATA_MODE,
+  MetadataMode,
+  parseMetadataMode,
+} from "@/lib/metadata-modes";
+
+export interface ConversionSettings {
+  format: OutputFormat;
+  encoderOptions: EncoderOptions;
+  metadataMode: MetadataMode;
+  firstFrameOnly: boolean;
+}
+
+export const parseConversionSettings = async (
+  formData: FormData
+): Promise<ConversionSettings> => {
+  const formatField = formData.get("format");
+  const format =
+    typeof formatField === "string" ? normalizeFormat(formatField) : null;
+  if (!format) {
+    throw new ImageError("INVALID_FORMAT", "Formato no válido");
+  }
+
+  const support = await getFormatSupport();
+  if (!support[format]) {
+    throw new ImageError(
+      "UNSUPPORTED_OUTPUT",
+      `El servidor no puede generar imágenes ${FORMAT_LABELS[format]}`
+    );
+  }
+
+  const parsed = parseEncoderOptions(formData, toEncoderFormat(format)!);
+  if ("error" in parsed) {
+    throw new ImageError("INVALID_OPTION", parsed.error);
+  }
+
+  const metadataField = formData.get("metadata");
+  const metadataMode =
+    typeof metadataField === "string" && metadataField !== ""
+      ? parseMetadataMode(metadataField)
+      : DEFAULT_METADATA_MODE;
+  if (!metadataMode) {
+    throw new ImageError("INVALID_OPTION", "Modo de metadatos no válido");
+  }
+
+  const firstFrameField = formData.get("firstFrameOnly");
+  if (
+    firstFrameField !== null &&
+    firstFrameField !== "" &&
+    firstFrameField !== "true" &&
+    firstFrameField !== "false"
+  ) {
+    throw new ImageError(
+      "INVALID_OPTION",
+      'El parámetro "firstFrameOnly" debe ser "true" o "false"'
+    );
+  }
+
+  return {
+    format,
+    encoderOptions: parsed.options,
+    metadataMode,
+    firstFrameOnly: firstFrameField === "true",
+  };
+};
+
+export const applyMetadataMode = (
+  pipeline: Sharp,
+  mode: MetadataMode
+): Sharp => {
+  switch (mode) {
+    case "keep":
+      return pipeline.keepMetadata();
+    case "orient":
+      return pipeline.rotate().keepMetadata();
+    case "icc":
+      return pipeline.rotate().keepIccProfile();
+    case "strip":
+      return pipeline.rotate();
+  }
+};
+
+export const convertImage = async (
+  buffer: Buffer,
+  settings: ConversionSettings
+): Promise<Buffer> => {
+  // Solo GIF y WebP guardan varios fotogramas; para el resto, leer todas las
+  // páginas apilaría los fotogramas en una única imagen alta.
+  const animated =
+    !settings.firstFrameOnly && ANIMATED_FORMATS.includes(settings.format);
+
+  try {
+    return await applyEncoderOptions(
+      applyMetadataMode(
+        sharp(buffer, { animated, limitInputPixels: MAX_INPUT_PIXELS }),
+        settings.metadataMode
+      ),
+      toEncoderFormat(settings.format)!,
+      settings.encoderOptions
+    ).toBuffer();
+  } catch (error) {
+    const imageError = fromSharpError(error);
+    if (imageError?.code === "PIXEL_LIMIT_EXCEEDED") throw imageError;
+
+    // libheif puede leer la cabecera de un HEIC aunque no tenga decodificador
+    // HEVC; en ese caso el fallo es del formato de entrada, no de la imagen.
+    const metadata = await sharp(buffer)
+      .metadata()
+      .catch(() => null);
+    if (metadata?.format === "heif" && metadata.compression === "hevc") {
+      throw new ImageError(
+        "UNSUPPORTED_INPUT",
+        "El servidor no puede leer imágenes HEIC"
+      );
+    }
+    throw imageError ?? error;
+  }
+};
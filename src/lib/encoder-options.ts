@@ -0,0 +1,242 @@
+import type { Sharp } from "sharp";
+import { normalizeFormat } from "@/lib/image-formats";
+
+export type EncoderFormat =
+  | "jpeg"
+  | "png"
+  | "webp"
+  | "gif"
+  | "tiff"
+  | "avif"
+  | "heif"
+  | "jxl";
+
+export const CHROMA_SUBSAMPLINGS = ["4:2:0", "4:4:4"] as const;
+export type ChromaSubsampling = (typeof CHROMA_SUBSAMPLINGS)[number];
+
+export const TIFF_COMPRESSIONS = [
+  "none",
+  "jpeg",
+  "deflate",
+  "packbits",
+  "ccittfax4",
+  "lzw",
+  "webp",
+  "zstd",
+  "jp2k",
+] as const;
+export type TiffCompression = (typeof TIFF_COMPRESSIONS)[number];
+
+export interface EncoderOptions {
+  quality?: number;
+  lossless?: boolean;
+  effort?: number;
+  progressive?: boolean;
+  chromaSubsampling?: ChromaSubsampling;
+  palette?: boolean;
+  compressionLevel?: number;
+  compression?: TiffCompression;
+}
+
+export type EncoderOptionKey = keyof EncoderOptions;
+
+export type EncoderOptionSpec =
+  | {
+      kind: "integer";
+      label: string;
+      ranges: Partial<Record<EncoderFormat, [number, number]>>;
+    }
+  | { kind: "boolean"; label: string; formats: EncoderFormat[] }
+  | {
+      kind: "enum";
+      label: string;
+      values: readonly string[];
+      formats: EncoderFormat[];
+    };
+
+// Los rangos reflejan los que acepta sharp para cada codificador.
+export const ENCODER_OPTION_SPECS: Record<EncoderOptionKey, EncoderOptionSpec> =
+  {
+    quality: {
+      kind: "integer",
+      label: "Calidad",
+      ranges: {
+        jpeg: [1, 100],
+        png: [0, 100],
+        webp: [1, 100],
+        tiff: [1, 100],
+        avif: [1, 100],
+        heif: [1, 100],
+        jxl: [1, 100],
+      },
+    },
+    lossless: {
+      kind: "boolean",
+      label: "Sin pérdida",
+      formats: ["webp", "avif", "heif", "jxl"],
+    },
+    effort: {
+      kind: "integer",
+      label: "Esfuerzo",
+      ranges: {
+        png: [1, 10],
+        webp: [0, 6],
+        gif: [1, 10],
+        avif: [0, 9],
+        heif: [0, 9],
+        jxl: [1, 9],
+      },
+    },
+    progressive: {
+      kind: "boolean",
+      label: "Progresivo / entrelazado",
+      formats: ["jpeg", "png", "gif"],
+    },
+    chromaSubsampling: {
+      kind: "enum",
+      label: "Submuestreo de croma",
+      values: CHROMA_SUBSAMPLINGS,
+      formats: ["jpeg", "avif", "heif"],
+    },
+    palette: { kind: "boolean", label: "Paleta", formats: ["png"] },
+    compressionLevel: {
+      kind: "integer",
+      label: "Nivel de compresión",
+      ranges: { png: [0, 9] },
+    },
+    compression: {
+      kind: "enum",
+      label: "Compresión",
+      values: TIFF_COMPRESSIONS,
+      formats: ["tiff"],
+    },
+  };
+
+export const ENCODER_OPTION_KEYS = Object.keys(
+  ENCODER_OPTION_SPECS
+) as EncoderOptionKey[];
+
+export const DEFAULT_ENCODER_OPTIONS: Record<EncoderFormat, EncoderOptions> = {
+  jpeg: { quality: 90 },
+  png: { quality: 90 },
+  webp: { quality: 90 },
+  gif: {},
+  tiff: { quality: 90 },
+  avif: {},
+  heif: {},
+  jxl: {},
+};
+
+export const toEncoderFormat = (format: string): EncoderFormat | null => {
+  const outputFormat = normalizeFormat(format);
+  if (!outputFormat) return null;
+  return outputFormat === "jpg" ? "jpeg" : outputFormat;
+};
+
+export const supportsOption = (
+  key: EncoderOptionKey,
+  format: EncoderFormat
+): boolean => {
+  const spec = ENCODER_OPTION_SPECS[key];
+  return spec.kind === "integer"
+    ? spec.ranges[format] !== undefined
+    : spec.formats.includes(format);
+};
+
+export const getOptionRange = (
+  key: EncoderOptionKey,
+  format: EncoderFormat
+): [number, number] | undefined => {
+  const spec = ENCODER_OPTION_SPECS[key];
+  return spec.kind === "integer" ? spec.ranges[format] : undefined;
+};
+
+export type ParseEncoderOptionsResult =
+  | { options: EncoderOptions }
+  | { error: string };
+
+export const parseEncoderOptions = (
+  formData: FormData,
+  format: EncoderFormat
+): ParseEncoderOptionsResult => {
+  const options: Record<string, number | boolean | string> = {};
+
+  for (const key of ENCODER_OPTION_KEYS) {
+    const raw = formData.get(key);
+    if (raw === null || raw === "") continue;
+
+    if (typeof raw !== "string") {
+      return { error: `El parámetro "${key}" debe ser texto` };
+    }
+
+    if (!supportsOption(key, format)) {
+      return {
+        error: `El parámetro "${key}" no aplica al formato ${format.toUpperCase()}`,
+      };
+    }
+
+    const spec = ENCODER_OPTION_SPECS[key];
+
+    if (spec.kind === "integer") {
+      const [min, max] = spec.ranges[format]!;
+      const value = Number(raw);
+      if (!Number.isInteger(value) || value < min || value > max) {
+        return {
+          error: `El parámetro "${key}" debe ser un entero entre ${min} y ${max} para ${format.toUpperCase()}`,
+        };
+      }
+      options[key] = value;
+    } else if (spec.kind === "boolean") {
+      if (raw !== "true" && raw !== "false") {
+        return { error: `El parámetro "${key}" debe ser "true" o "false"` };
+      }
+      options[key] = raw === "true";
+    } else {
+      if (!spec.values.includes(raw)) {
+        return {
+          error: `El parámetro "${key}" debe ser uno de: ${spec.values.join(
+            ", "
+          )}`,
+        };
+      }
+      options[key] = raw;
+    }
+  }
+
+  if (
+    format === "png" &&
+    options.palette === false &&
+    (options.quality !== undefined || options.effort !== undefined)
+  ) {
+    return {
+      error:
+        'Los parámetros "quality" y "effort" de PNG requieren "palette" activado',
+    };
+  }
+
+  return { options: options as EncoderOptions };
+};
+
+export const applyEncoderOptions = (
+  pipeline: Sharp,
+  format: EncoderFormat,
+  options: EncoderOptions
+): Sharp => {
+  const merged: EncoderOptions = {
+    ...DEFAULT_ENCODER_OPTIONS[format],
+    ...options,
+  };
+
+  // Una calidad por defecto en PNG activaría la paleta aunque se haya
+  // pedido explícitamente que no.
+  if (format === "png" && options.palette === false) {
+    delete merged.quality;
+  }
+
+  // HEIF sin más indicación significa HEIC (HEVC); AVIF usa su propio alias.
+  if (format === "heif") {
+    return pipeline.heif({ ...merged, compression: "hevc" });
+  }
+
+  return pipeline.toFormat(format, merged);
+};
@@ -0,0 +1,88 @@
+export type ImageErrorCode =
+  | "NO_IMAGE"
+  | "INVALID_FORMAT"
+  | "INVALID_OPTION"
+  | "FILE_TOO_LARGE"
+  | "REQUEST_TOO_LARGE"
+  | "PIXEL_LIMIT_EXCEEDED"
+  | "CORRUPT_INPUT"
+  | "UNSUPPORTED_INPUT"
+  | "UNSUPPORTED_OUTPUT"
+  | "INVALID_ARCHIVE"
+  | "ARCHIVE_TOO_LARGE"
+  | "SERVER_BUSY"
+  | "PROCESSING_FAILED";
+
+const ERROR_STATUS: Record<ImageErrorCode, number> = {
+  NO_IMAGE: 400,
+  INVALID_FORMAT: 400,
+  INVALID_OPTION: 400,
+  FILE_TOO_LARGE: 413,
+  REQUEST_TOO_LARGE: 413,
+  PIXEL_LIMIT_EXCEEDED: 413,
+  CORRUPT_INPUT: 422,
+  UNSUPPORTED_INPUT: 415,
+  UNSUPPORTED_OUTPUT: 501,
+  INVALID_ARCHIVE: 400,
+  ARCHIVE_TOO_LARGE: 413,
+  SERVER_BUSY: 429,
+  PROCESSING_FAILED: 500,
+};
+
+export class ImageError extends Error {
+  status: number;
+  retryAfter?: number;
+
+  constructor(
+    public code: ImageErrorCode,
+    message: string,
+    public detail?: string
+  ) {
+    super(message);
+    this.name = "ImageError";
+    this.status = ERROR_STATUS[code];
+  }
+}
+
+export interface ImageErrorBody {
+  error: string;
+  code: ImageErrorCode;
+  detail?: string;
+}
+
+const CORRUPT_INPUT_PATTERN =
+  /premature end|corrupt|truncated|unexpected end|bad (huffman|seek)|invalid (marker|chunk)|crc error|read error|libpng error/i;
+
+// Primera línea del mensaje de libvips, sin rutas ni trazas internas.
+const getErrorDetail = (error: unknown) =>
+  error instanceof Error ? error.message.split("\n")[0].trim() : undefined;
+
+// Traduce los errores de sharp que dependen de la imagen recibida; el resto
+// siguen siendo fallos internos.
+export const fromSharpError = (error: unknown): ImageError | null => {
+  const detail = getErrorDetail(error);
+  if (!detail) return null;
+
+  if (detail.includes("pixel limit")) {
+    return new ImageError(
+      "PIXEL_LIMIT_EXCEEDED",
+      "La imagen supera el límite de píxeles permitido",
+      detail
+    );
+  }
+  if (CORRUPT_INPUT_PATTERN.test(detail)) {
+    return new ImageError(
+      "CORRUPT_INPUT",
+      "La imagen está dañada o incompleta",
+      detail
+    );
+  }
+  if (detail.includes("unsupported image format")) {
+    return new ImageError(
+      "UNSUPPORTED_INPUT",
+      "El formato de la imagen no es compatible",
+      detail
+    );
+  }
+  return null;
+};
@@ -0,0 +1,64 @@
+const MAX_BUSY_RETRIES = 5;
+
+interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  signal?: AbortSignal | null;
+}
+
+const wait = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const handleAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", handleAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", handleAbort, { once: true });
+  });
+
+// Repite la petición mientras el servidor responda 429, respetando Retry-After.
+export const retryWhileBusy = async (
+  send: () => Promise<Response>,
+  signal?: AbortSignal | null
+): Promise<Response> => {
+  for (let attempt = 0; ; attempt++) {
+    const response = await send();
+    if (response.status !== 429 || attempt >= MAX_BUSY_RETRIES) {
+      return response;
+    }
+
+    const retryAfter = Number(response.headers.get("Retry-After"));
+    await wait(
+      (Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : 1) * 1000,
+      signal
+    );
+  }
+};
+
+export const fetchWithRetry = (
+  input: RequestInfo | URL,
+  init?: RequestInit
+): Promise<Response> => retryWhileBusy(() => fetch(input, init), init?.signal);
+
+// Reintenta con espera exponencial (1 s, 2 s, 4 s…) mientras el error sea
+// pasajero según `shouldRetry`.
+export const retryWithBackoff = async <T>(
+  task: () => Promise<T>,
+  shouldRetry: (error: unknown) => boolean,
+  { retries = 2, baseDelayMs = 1000, signal }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (signal?.aborted || attempt >= retries || !shouldRetry(error)) {
+        throw error;
+      }
+      await wait(baseDelayMs * 2 ** attempt, signal);
+    }
+  }
+};
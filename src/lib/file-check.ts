@@ -0,0 +1,112 @@
+import { normalizeFormat } from "@/lib/image-formats";
+import { SniffedFormat, sniffImageFormat } from "@/lib/sniff";
+
+export const SNIFFED_FORMATS: readonly SniffedFormat[] = [
+  "png",
+  "jpg",
+  "gif",
+  "webp",
+  "tiff",
+  "avif",
+  "heif",
+  "jxl",
+  "bmp",
+  "svg",
+];
+
+// Formatos que cualquier navegador actual puede dibujar en un canvas.
+export const BROWSER_FORMATS: readonly SniffedFormat[] = [
+  "png",
+  "jpg",
+  "gif",
+  "webp",
+  "avif",
+  "bmp",
+  "svg",
+];
+
+export const SNIFFED_FORMAT_LABELS: Record<SniffedFormat, string> = {
+  png: "PNG",
+  jpg: "JPG",
+  gif: "GIF",
+  webp: "WEBP",
+  tiff: "TIFF",
+  avif: "AVIF",
+  heif: "HEIC",
+  jxl: "JXL",
+  bmp: "BMP",
+  svg: "SVG",
+};
+
+export interface AcceptedFile {
+  file: File;
+  format: SniffedFormat;
+  warning?: string;
+}
+
+export interface RejectedFile {
+  name: string;
+  reason: string;
+}
+
+const getExtension = (name: string) =>
+  name.includes(".") ? name.split(".").pop()!.toLowerCase() : "";
+
+const checkFile = async (
+  file: File,
+  accepted: readonly SniffedFormat[]
+): Promise<AcceptedFile | RejectedFile> => {
+  if (file.size === 0) {
+    return { name: file.name, reason: "El archivo está vacío" };
+  }
+
+  const head = new Uint8Array(await file.slice(0, 512).arrayBuffer());
+  const format = sniffImageFormat(head);
+  if (!format) {
+    return { name: file.name, reason: "No es una imagen reconocible" };
+  }
+  if (!accepted.includes(format)) {
+    return {
+      name: file.name,
+      reason: `${SNIFFED_FORMAT_LABELS[format]} no es compatible con esta herramienta`,
+    };
+  }
+
+  const extension = getExtension(file.name);
+  const extensionFormat = normalizeFormat(extension) ?? extension;
+  const matches =
+    !extension ||
+    extensionFormat === format ||
+    (extension === "heif" && format === "avif");
+
+  return {
+    file,
+    format,
+    warning: matches
+      ? undefined
+      : `La extensión .${extension} no coincide con el contenido (${SNIFFED_FORMAT_LABELS[format]})`,
+  };
+};
+
+// Clasifica los archivos por su firma real, sin fiarse de la extensión ni del
+// tipo MIME que informa el navegador.
+export const checkImageFiles = async (
+  files: File[],
+  accepted: readonly SniffedFormat[] = SNIFFED_FORMATS
+): Promise<{ accepted: AcceptedFile[]; rejected: RejectedFile[] }> => {
+  const results = await Promise.all(
+    files.map((file) =>
+      checkFile(file, accepted).catch(
+        (): RejectedFile => ({
+          name: file.name,
+          reason: "No se pudo leer el archivo",
+        })
+      )
+    )
+  );
+
+  return {
+    accepted: results.filter((r): r is AcceptedFile => "file" in r),
+    rejected: results.filter((r): r is RejectedFile => "reason" in r),
+  };
+};
@@ -0,0 +1,136 @@
+import { readStoredSetting, writeStoredSetting } from "@/lib/stored-settings";
+
+export type FilenameTool = "convert" | "resize" | "compress" | "collage";
+
+export const FILENAME_TOKENS = [
+  "name",
+  "ext",
+  "w",
+  "h",
+  "index",
+  "date",
+  "quality",
+  "hash",
+] as const;
+export type FilenameToken = (typeof FILENAME_TOKENS)[number];
+
+export const FILENAME_TOKEN_LABELS: Record<FilenameToken, string> = {
+  name: "nombre original",
+  ext: "extensión",
+  w: "ancho",
+  h: "alto",
+  index: "posición",
+  date: "fecha",
+  quality: "calidad",
+  hash: "huella del contenido",
+};
+
+export const DEFAULT_FILENAME_TEMPLATES: Record<FilenameTool, string> = {
+  convert: "{name}.{ext}",
+  resize: "{name}_{w}x{h}.{ext}",
+  compress: "{name}_compressed.{ext}",
+  collage: "{name}_{index}_{date}.{ext}",
+};
+
+export interface FilenameValues {
+  name: string;
+  ext: string;
+  w?: number;
+  h?: number;
+  index: number;
+  date?: Date;
+  quality?: number;
+  hash?: string;
+}
+
+const INVALID_CHARS = /[\\/:*?"<>|\u0000-\u001f]/g;
+
+// Quita solo la última extensión; un archivo sin punto conserva su nombre.
+export const getBaseName = (fileName: string) => {
+  const dot = fileName.lastIndexOf(".");
+  return dot > 0 ? fileName.slice(0, dot) : fileName;
+};
+
+const formatDate = (date: Date) =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
+export const usesToken = (template: string, token: FilenameToken) =>
+  template.includes(`{${token}}`);
+
+export const renderFilename = (
+  template: string,
+  values: FilenameValues
+): string => {
+  const replacements: Record<FilenameToken, string | undefined> = {
+    name: values.name,
+    ext: values.ext,
+    w: values.w?.toString(),
+    h: values.h?.toString(),
+    index: values.index.toString(),
+    date: formatDate(values.date ?? new Date()),
+    quality: values.quality?.toString(),
+    hash: values.hash,
+  };
+
+  const rendered = template
+    .replace(/\{(\w+)\}/g, (match, token: string) =>
+      Object.hasOwn(replacements, token)
+        ? replacements[token as FilenameToken] ?? ""
+        : match
+    )
+    .replace(INVALID_CHARS, "_")
+    .trim();
+
+  // La extensión real siempre va al final para que coincida con el contenido.
+  const suffix = `.${values.ext}`;
+  const base = rendered.toLowerCase().endsWith(suffix.toLowerCase())
+    ? rendered.slice(0, -suffix.length)
+    : rendered;
+  return `${base || values.name || "imagen"}${suffix}`;
+};
+
+export const uniqueFileName = (fileName: string, used: Set<string>) => {
+  const base = getBaseName(fileName);
+  const ext = fileName.slice(base.length);
+  let candidate = fileName;
+  for (let i = 1; used.has(candidate.toLowerCase()); i++) {
+    candidate = `${base}_${i}${ext}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    await blob.arrayBuffer()
+  );
+  return Array.from(new Uint8Array(digest).subarray(0, 4))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+const storageKey = (tool: FilenameTool) => `filename-template:${tool}`;
+
+export const loadFilenameTemplate = (tool: FilenameTool): string =>
+  readStoredSetting(storageKey(tool)) ?? DEFAULT_FILENAME_TEMPLATES[tool];
+
+export const saveFilenameTemplate = (tool: FilenameTool, template: string) =>
+  writeStoredSetting(
+    storageKey(tool),
+    template === DEFAULT_FILENAME_TEMPLATES[tool] ? null : template
+  );
+
+export const buildFilename = async (
+  template: string,
+  values: Omit<FilenameValues, "hash">,
+  blob: Blob
+): Promise<string> =>
+  renderFilename(template, {
+    ...values,
+    hash: usesToken(template, "hash") ? await hashBlob(blob) : undefined,
+  });
@@ -0,0 +1,75 @@
+// Ruta relativa de cada archivo dentro de la carpeta soltada o seleccionada.
+const relativePaths = new WeakMap<File, string>();
+
+const readAllEntries = async (
+  reader: FileSystemDirectoryReader
+): Promise<FileSystemEntry[]> => {
+  const entries: FileSystemEntry[] = [];
+  // readEntries devuelve los resultados por tandas hasta que llega una vacía.
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject)
+    );
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const readEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  // Archivos ocultos como .DS_Store solo llenarían la lista de descartes.
+  if (entry.name.startsWith(".")) return [];
+
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    relativePaths.set(file, entry.fullPath.replace(/^\/+/, ""));
+    return [file];
+  }
+
+  if (entry.isDirectory) {
+    const children = await readAllEntries(
+      (entry as FileSystemDirectoryEntry).createReader()
+    );
+    return (await Promise.all(children.map(readEntry))).flat();
+  }
+
+  return [];
+};
+
+// Los elementos de `dataTransfer` solo son accesibles durante el evento, así
+// que las entradas se recogen antes de cualquier `await`.
+export const getDroppedFiles = async (
+  dataTransfer: DataTransfer
+): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === "file")
+    .map((item) => item.webkitGetAsEntry?.() ?? null);
+
+  if (entries.length === 0 || entries.some((entry) => !entry)) {
+    return Array.from(dataTransfer.files);
+  }
+
+  const files = await Promise.all(
+    entries.map((entry) => readEntry(entry!).catch(() => []))
+  );
+  return files.flat();
+};
+
+export const withoutHiddenFiles = (files: File[]): File[] =>
+  files.filter(
+    (file) =>
+      !(file.webkitRelativePath || file.name)
+        .split("/")
+        .some((part) => part.startsWith("."))
+  );
+
+export const getRelativePath = (file: File): string =>
+  relativePaths.get(file) || file.webkitRelativePath || file.name;
+
+// Sustituye el nombre del archivo conservando las carpetas de su ruta.
+export const withFileName = (file: File, fileName: string): string => {
+  const path = getRelativePath(file);
+  const slash = path.lastIndexOf("/");
+  return slash === -1 ? fileName : `${path.slice(0, slash + 1)}${fileName}`;
+};
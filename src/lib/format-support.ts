@@ -0,0 +1,69 @@
+import sharp from "sharp";
+import { applyEncoderOptions, toEncoderFormat } from "@/lib/encoder-options";
+import { OUTPUT_FORMATS, OutputFormat } from "@/lib/image-formats";
+import { SniffedFormat } from "@/lib/sniff";
+
+export type FormatSupport = Record<OutputFormat, boolean>;
+export type InputSupport = Record<SniffedFormat, boolean>;
+
+const SHARP_INPUT_IDS: Record<SniffedFormat, keyof sharp.FormatEnum> = {
+  png: "png",
+  jpg: "jpeg",
+  gif: "gif",
+  webp: "webp",
+  tiff: "tiff",
+  avif: "heif",
+  heif: "heif",
+  jxl: "jxl",
+  bmp: "magick",
+  svg: "svg",
+};
+
+// AVIF y HEIC comparten cargador; sin decodificador HEVC libvips solo anuncia
+// la extensión .avif.
+export const getInputSupport = (): InputSupport =>
+  Object.fromEntries(
+    (Object.keys(SHARP_INPUT_IDS) as SniffedFormat[]).map((format) => {
+      const input = sharp.format[SHARP_INPUT_IDS[format]]?.input;
+      const supported =
+        !!input?.buffer &&
+        (format !== "heif" || !!input.fileSuffix?.includes(".heic"));
+      return [format, supported];
+    })
+  ) as InputSupport;
+
+let supportPromise: Promise<FormatSupport> | null = null;
+
+// El libvips incluido con sharp no trae todos los codificadores (HEVC o JPEG
+// XL suelen faltar), así que se prueba a codificar una imagen mínima una vez.
+const probeEncoder = async (format: OutputFormat): Promise<boolean> => {
+  try {
+    await applyEncoderOptions(
+      sharp({
+        create: {
+          width: 1,
+          height: 1,
+          channels: 3,
+          background: { r: 0, g: 0, b: 0 },
+        },
+      }),
+      toEncoderFormat(format)!,
+      {}
+    ).toBuffer();
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getFormatSupport = (): Promise<FormatSupport> => {
+  if (!supportPromise) {
+    supportPromise = Promise.all(OUTPUT_FORMATS.map(probeEncoder)).then(
+      (results) =>
+        Object.fromEntries(
+          OUTPUT_FORMATS.map((format, i) => [format, results[i]])
+        ) as FormatSupport
+    );
+  }
+  return supportPromise;
+};
@@ -0,0 +1,95 @@
+export const OUTPUT_FORMATS = [
+  "png",
+  "jpg",
+  "webp",
+  "gif",
+  "tiff",
+  "avif",
+  "heif",
+  "jxl",
+] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export const ANIMATED_FORMATS: OutputFormat[] = ["gif", "webp"];
+
+const FORMAT_ALIASES: Record<string, OutputFormat> = {
+  jpeg: "jpg",
+  tif: "tiff",
+  heic: "heif",
+};
+
+export const MIME_TYPES: Record<OutputFormat, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  webp: "image/webp",
+  gif: "image/gif",
+  tiff: "image/tiff",
+  avif: "image/avif",
+  heif: "image/heic",
+  jxl: "image/jxl",
+};
+
+export const FILE_EXTENSIONS: Record<OutputFormat, string> = {
+  png: "png",
+  jpg: "jpg",
+  webp: "webp",
+  gif: "gif",
+  tiff: "tiff",
+  avif: "avif",
+  heif: "heic",
+  jxl: "jxl",
+};
+
+export const FORMAT_LABELS: Record<OutputFormat, string> = {
+  png: "PNG",
+  jpg: "JPG",
+  webp: "WEBP",
+  gif: "GIF",
+  tiff: "TIFF",
+  avif: "AVIF",
+  heif: "HEIC",
+  jxl: "JXL",
+};
+
+export const getFormatForMime = (mime: string): OutputFormat | undefined =>
+  OUTPUT_FORMATS.find(
+    (candidate) => MIME_TYPES[candidate] === mime.toLowerCase()
+  );
+
+export const getExtensionForMime = (mime: string): string | undefined => {
+  const format = getFormatForMime(mime);
+  return format && FILE_EXTENSIONS[format];
+};
+
+// Extensiones que algunos navegadores entregan sin tipo MIME (p. ej. HEIC
+// en Windows), por lo que no basta con mirar `file.type`.
+export const IMAGE_FILE_EXTENSIONS = [
+  "png",
+  "jpg",
+  "jpeg",
+  "webp",
+  "gif",
+  "tif",
+  "tiff",
+  "avif",
+  "heic",
+  "heif",
+  "jxl",
+  "svg",
+];
+
+// Valor de `accept` para los selectores de archivos.
+export const IMAGE_FILE_ACCEPT = [
+  "image/*",
+  ...IMAGE_FILE_EXTENSIONS.map((ext) => `.${ext}`),
+].join(",");
+
+export const normalizeFormat = (format: string): OutputFormat | null => {
+  const lowerFormat = format.toLowerCase();
+  if (Object.hasOwn(FORMAT_ALIASES, lowerFormat)) {
+    return FORMAT_ALIASES[lowerFormat];
+  }
+  return (OUTPUT_FORMATS as readonly string[]).includes(lowerFormat)
+    ? (lowerFormat as OutputFormat)
+    : null;
+};
@@ -0,0 +1,48 @@
+import { SniffedFormat } from "@/lib/sniff";
+
+export interface ImageInfo {
+  format: SniffedFormat;
+  width: number;
+  height: number;
+  space: string;
+  channels: number;
+  bitDepth: number;
+  hasAlpha: boolean;
+  frames: number;
+  orientation: number;
+  hasExif: boolean;
+  hasIcc: boolean;
+  hasXmp: boolean;
+  density?: number;
+  size: number;
+}
+
+export const fetchImageInfo = async (file: File): Promise<ImageInfo | null> => {
+  const formData = new FormData();
+  formData.append("image", file);
+
+  try {
+    const response = await fetch("/api/info", {
+      method: "POST",
+      body: formData,
+    });
+    return response.ok ? await response.json() : null;
+  } catch {
+    return null;
+  }
+};
+
+export const describeImageInfo = (info: ImageInfo): string =>
+  [
+    info.format.toUpperCase(),
+    `${info.width}×${info.height}`,
+    info.space,
+    `${info.bitDepth} bits`,
+    info.hasAlpha && "alfa",
+    info.frames > 1 && `${info.frames} fotogramas`,
+    info.orientation !== 1 && `orientación ${info.orientation}`,
+    info.hasExif && "EXIF",
+    info.hasIcc && "ICC",
+  ]
+    .filter(Boolean)
+    .join(" • ");
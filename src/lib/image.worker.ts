@@ -0,0 +1,19 @@
+import { DecodeError, ImageTask, runImageTask } from "@/lib/canvas-ops";
+
+export interface WorkerRequest {
+  id: number;
+  task: ImageTask;
+}
+
+self.onmessage = async ({ data }: MessageEvent<WorkerRequest>) => {
+  try {
+    const result = await runImageTask(data.task);
+    self.postMessage({ id: data.id, result });
+  } catch (error) {
+    self.postMessage({
+      id: data.id,
+      error: error instanceof Error ? error.message : String(error),
+      decodeFailed: error instanceof DecodeError,
+    });
+  }
+};
@@ -0,0 +1,119 @@
+import sharp from "sharp";
+import { ImageError } from "@/lib/errors";
+import { getInputSupport } from "@/lib/format-support";
+import {
+  MAX_FILE_BYTES,
+  MAX_INPUT_PIXELS,
+  MAX_REQUEST_BYTES,
+  formatBytes,
+} from "@/lib/limits";
+import { SniffedFormat, sniffImageFormat } from "@/lib/sniff";
+
+const requestTooLarge = () =>
+  new ImageError(
+    "REQUEST_TOO_LARGE",
+    `La petición supera el máximo de ${formatBytes(MAX_REQUEST_BYTES)}`
+  );
+
+const assertRequestSize = (request: Request) => {
+  const contentLength = Number(request.headers.get("content-length"));
+  if (contentLength > MAX_REQUEST_BYTES) {
+    throw requestTooLarge();
+  }
+};
+
+// Content-Length puede faltar (subidas chunked) o mentir, así que el límite se
+// aplica también contando los bytes mientras se lee el cuerpo.
+export const readFormData = async (request: Request): Promise<FormData> => {
+  assertRequestSize(request);
+  if (!request.body) return request.formData();
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > MAX_REQUEST_BYTES) {
+      await reader.cancel();
+      throw requestTooLarge();
+    }
+    chunks.push(value);
+  }
+
+  return new Response(Buffer.concat(chunks), {
+    headers: { "Content-Type": request.headers.get("content-type") ?? "" },
+  }).formData();
+};
+
+export const getImageFile = (formData: FormData, field = "image"): File => {
+  const file = formData.get(field);
+  if (!(file instanceof File)) {
+    throw new ImageError("NO_IMAGE", "No se proporcionó ninguna imagen");
+  }
+  return file;
+};
+
+export const readField = (
+  formData: FormData,
+  key: string
+): string | undefined => {
+  const value = formData.get(key);
+  return typeof value === "string" && value !== "" ? value : undefined;
+};
+
+export const assertFileSize = (name: string, size: number) => {
+  if (size > MAX_FILE_BYTES) {
+    throw new ImageError(
+      "FILE_TOO_LARGE",
+      `${name} supera el máximo de ${formatBytes(MAX_FILE_BYTES)}`
+    );
+  }
+};
+
+// Comprueba la firma real del archivo y las dimensiones declaradas en su
+// cabecera antes de decodificar ningún píxel.
+export const validateImageBuffer = async (
+  buffer: Buffer,
+  name: string
+): Promise<SniffedFormat> => {
+  assertFileSize(name, buffer.length);
+
+  const format = sniffImageFormat(buffer.subarray(0, 512));
+  if (!format || !getInputSupport()[format]) {
+    throw new ImageError(
+      "UNSUPPORTED_INPUT",
+      `${name} no es una imagen en un formato compatible`
+    );
+  }
+
+  const metadata = await sharp(buffer)
+    .metadata()
+    .catch(() => {
+      throw new ImageError(
+        "UNSUPPORTED_INPUT",
+        `No se pudo leer la cabecera de ${name}`
+      );
+    });
+
+  const pixels =
+    (metadata.width ?? 0) * (metadata.height ?? 0) * (metadata.pages ?? 1);
+  if (pixels > MAX_INPUT_PIXELS) {
+    throw new ImageError(
+      "PIXEL_LIMIT_EXCEEDED",
+      `${name} supera el máximo de ${(MAX_INPUT_PIXELS / 1_000_000).toFixed(
+        0
+      )} megapíxeles`
+    );
+  }
+
+  return format;
+};
+
+export const readImageFile = async (file: File): Promise<Buffer> => {
+  assertFileSize(file.name, file.size);
+  const buffer = Buffer.from(await file.arrayBuffer());
+  await validateImageBuffer(buffer, file.name);
+  return buffer;
+};
@@ -0,0 +1,33 @@
+const readLimit = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export const MAX_FILE_BYTES = readLimit(
+  "IMAGE_MAX_FILE_BYTES",
+  25 * 1024 * 1024
+);
+export const MAX_REQUEST_BYTES = readLimit(
+  "IMAGE_MAX_REQUEST_BYTES",
+  200 * 1024 * 1024
+);
+export const MAX_INPUT_PIXELS = readLimit(
+  "IMAGE_MAX_INPUT_PIXELS",
+  100_000_000
+);
+
+// Las entradas se cuentan antes de descomprimir; los bytes, mientras se
+// descomprime cada entrada.
+export const MAX_ARCHIVE_ENTRIES = readLimit("IMAGE_MAX_ARCHIVE_ENTRIES", 500);
+export const MAX_ARCHIVE_BYTES = readLimit(
+  "IMAGE_MAX_ARCHIVE_BYTES",
+  500 * 1024 * 1024
+);
+
+export const MAX_CONCURRENT_JOBS = readLimit("IMAGE_MAX_CONCURRENT_JOBS", 2);
+export const MAX_QUEUED_JOBS = readLimit("IMAGE_MAX_QUEUED_JOBS", 50);
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(1)} MB`
+    : `${(bytes / 1024).toFixed(1)} KB`;
@@ -0,0 +1,25 @@
+export const METADATA_MODES = ["strip", "orient", "icc", "keep"] as const;
+export type MetadataMode = (typeof METADATA_MODES)[number];
+
+export const DEFAULT_METADATA_MODE: MetadataMode = "strip";
+
+// Todos los modos salvo "keep" giran los píxeles según la orientación EXIF,
+// porque al perder la etiqueta las fotos del móvil quedarían de lado.
+export const METADATA_MODE_LABELS: Record<MetadataMode, string> = {
+  strip: "Eliminar todo (incl. GPS)",
+  orient: "Auto-orientar y conservar metadatos",
+  icc: "Solo perfil de color (ICC)",
+  keep: "Conservar todo sin tocar",
+};
+
+export const METADATA_MODE_SHORT_LABELS: Record<MetadataMode, string> = {
+  strip: "Sin metadatos",
+  orient: "Orientada",
+  icc: "Solo ICC",
+  keep: "Metadatos intactos",
+};
+
+export const parseMetadataMode = (value: string): MetadataMode | null =>
+  (METADATA_MODES as readonly string[]).includes(value)
+    ? (value as MetadataMode)
+    : null;
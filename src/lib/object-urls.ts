@@ -0,0 +1,13 @@
+// Revoca las URLs de los elementos que cumplen la condición. Se llama con el
+// estado actual antes de actualizarlo y no dentro de los actualizadores de
+// setState, que React puede ejecutar dos veces.
+export const revokeObjectUrls = <T>(
+  items: T[],
+  getUrl: (item: T) => string | undefined,
+  matches: (item: T) => boolean
+) => {
+  items.forEach((item) => {
+    const url = getUrl(item);
+    if (url && matches(item)) URL.revokeObjectURL(url);
+  });
+};
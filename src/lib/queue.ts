@@ -0,0 +1,61 @@
+import { ImageError } from "@/lib/errors";
+import { MAX_CONCURRENT_JOBS, MAX_QUEUED_JOBS } from "@/lib/limits";
+
+class ProcessingQueue {
+  private running = 0;
+  private waiting: Array<() => void> = [];
+  private averageDurationMs = 1000;
+
+  constructor(private concurrency: number, private maxQueued: number) {}
+
+  async run<T>(job: () => Promise<T>): Promise<T> {
+    if (this.running >= this.concurrency) {
+      if (this.waiting.length >= this.maxQueued) {
+        const error = new ImageError(
+          "SERVER_BUSY",
+          "El servidor está ocupado, inténtalo de nuevo en unos segundos"
+        );
+        error.retryAfter = this.estimateWaitSeconds();
+        throw error;
+      }
+      // Quien termina cede su hueco directamente, sin liberar `running`.
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.running++;
+    }
+
+    const startedAt = Date.now();
+    try {
+      return await job();
+    } finally {
+      this.averageDurationMs =
+        this.averageDurationMs * 0.8 + (Date.now() - startedAt) * 0.2;
+      const next = this.waiting.shift();
+      if (next) next();
+      else this.running--;
+    }
+  }
+
+  private estimateWaitSeconds() {
+    return Math.max(
+      1,
+      Math.ceil(
+        ((this.waiting.length + 1) * this.averageDurationMs) /
+          this.concurrency /
+          1000
+      )
+    );
+  }
+}
+
+// Una única cola por proceso compartida por todas las rutas de imagen.
+const globalForQueue = globalThis as unknown as {
+  processingQueue?: ProcessingQueue;
+};
+
+export const processingQueue =
+  globalForQueue.processingQueue ??
+  (globalForQueue.processingQueue = new ProcessingQueue(
+    MAX_CONCURRENT_JOBS,
+    MAX_QUEUED_JOBS
+  ));
@@ -0,0 +1,256 @@
+export const RESAMPLE_ALGORITHMS = [
+  "lanczos3",
+  "bicubic",
+  "steps",
+  "browser",
+] as const;
+export type ResampleAlgorithm = (typeof RESAMPLE_ALGORITHMS)[number];
+
+export const RESAMPLE_ALGORITHM_LABELS: Record<ResampleAlgorithm, string> = {
+  lanczos3: "Lanczos3 (máxima nitidez)",
+  bicubic: "Bicúbico",
+  steps: "Reducción por pasos",
+  browser: "Navegador (más rápido)",
+};
+
+// Solo los filtros propios dan el mismo resultado en todos los navegadores;
+// "steps" y "browser" dependen del suavizado de cada motor.
+export type FilterAlgorithm = Extract<
+  ResampleAlgorithm,
+  "lanczos3" | "bicubic"
+>;
+
+export const isFilterAlgorithm = (
+  algorithm: ResampleAlgorithm
+): algorithm is FilterAlgorithm =>
+  algorithm === "lanczos3" || algorithm === "bicubic";
+
+interface Filter {
+  support: number;
+  weight: (x: number) => number;
+}
+
+const sinc = (x: number) => {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+};
+
+const FILTERS: Record<FilterAlgorithm, Filter> = {
+  lanczos3: {
+    support: 3,
+    weight: (x) => (Math.abs(x) < 3 ? sinc(x) * sinc(x / 3) : 0),
+  },
+  // Catmull-Rom (Keys, a = -0.5).
+  bicubic: {
+    support: 2,
+    weight: (x) => {
+      const t = Math.abs(x);
+      if (t < 1) return (1.5 * t - 2.5) * t * t + 1;
+      if (t < 2) return ((-0.5 * t + 2.5) * t - 4) * t + 2;
+      return 0;
+    },
+  },
+};
+
+interface Contribution {
+  start: number;
+  weights: Float32Array;
+}
+
+// Pesos de cada píxel de salida; al reducir, el filtro se ensancha para
+// cubrir todos los píxeles de origen que caen en él.
+const computeContributions = (
+  sourceSize: number,
+  targetSize: number,
+  filter: Filter
+): Contribution[] => {
+  const scale = targetSize / sourceSize;
+  const filterScale = Math.max(1, 1 / scale);
+  const support = filter.support * filterScale;
+
+  return Array.from({ length: targetSize }, (_, i) => {
+    const center = (i + 0.5) / scale;
+    const start = Math.max(0, Math.floor(center - support));
+    const end = Math.min(sourceSize, Math.ceil(center + support));
+    const weights = new Float32Array(Math.max(1, end - start));
+    let sum = 0;
+    for (let j = start; j < end; j++) {
+      const weight = filter.weight((j + 0.5 - center) / filterScale);
+      weights[j - start] = weight;
+      sum += weight;
+    }
+    if (sum !== 0) {
+      for (let k = 0; k < weights.length; k++) weights[k] /= sum;
+    } else {
+      weights[0] = 1;
+    }
+    return { start, weights };
+  });
+};
+
+export interface Pixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// Convolución separable sobre alfa premultiplicado para que los bordes
+// transparentes no se oscurezcan. Escribe en los píxeles de `target`.
+export const resamplePixels = (
+  source: Pixels,
+  target: Pixels,
+  algorithm: FilterAlgorithm
+) => {
+  const { width, height } = target;
+  const filter = FILTERS[algorithm];
+  const horizontal = computeContributions(source.width, width, filter);
+  const vertical = computeContributions(source.height, height, filter);
+  const src = source.data;
+
+  // Primera pasada: solo horizontal, guardada en coma flotante.
+  const temp = new Float32Array(width * source.height * 4);
+  for (let y = 0; y < source.height; y++) {
+    const rowOffset = y * source.width;
+    for (let x = 0; x < width; x++) {
+      const { start, weights } = horizontal[x];
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const index = (rowOffset + start + k) * 4;
+        const alpha = src[index + 3];
+        const weight = weights[k] * alpha;
+        r += src[index] * weight;
+        g += src[index + 1] * weight;
+        b += src[index + 2] * weight;
+        a += weights[k] * alpha;
+      }
+      const out = (y * width + x) * 4;
+      temp[out] = r;
+      temp[out + 1] = g;
+      temp[out + 2] = b;
+      temp[out + 3] = a;
+    }
+  }
+
+  const result = target.data;
+  for (let y = 0; y < height; y++) {
+    const { start, weights } = vertical[y];
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const index = ((start + k) * width + x) * 4;
+        const weight = weights[k];
+        r += temp[index] * weight;
+        g += temp[index + 1] * weight;
+        b += temp[index + 2] * weight;
+        a += temp[index + 3] * weight;
+      }
+      const out = (y * width + x) * 4;
+      if (a > 0) {
+        result[out] = r / a;
+        result[out + 1] = g / a;
+        result[out + 2] = b / a;
+      }
+      result[out + 3] = a;
+    }
+  }
+};
+
+export interface SharpenOptions {
+  amount: number;
+  radius: number;
+  threshold: number;
+}
+
+const gaussianKernel = (radius: number) => {
+  const sigma = Math.max(0.1, radius);
+  const size = Math.ceil(sigma * 3);
+  const kernel = new Float32Array(size * 2 + 1);
+  let sum = 0;
+  for (let i = -size; i <= size; i++) {
+    const value = Math.exp(-(i * i) / (2 * sigma * sigma));
+    kernel[i + size] = value;
+    sum += value;
+  }
+  for (let i = 0; i < kernel.length; i++) kernel[i] /= sum;
+  return kernel;
+};
+
+// Máscara de enfoque: suma la diferencia con una copia desenfocada. El
+// umbral evita realzar el ruido de las zonas lisas. El desenfoque se hace
+// sobre alfa premultiplicado para que el color oculto de los píxeles
+// transparentes no cree halos oscuros. Modifica los píxeles.
+export const unsharpMask = (
+  pixels: Pixels,
+  { amount, radius, threshold }: SharpenOptions
+) => {
+  const { data, width, height } = pixels;
+  const kernel = gaussianKernel(radius);
+  const half = (kernel.length - 1) / 2;
+  const temp = new Float32Array(width * height * 4);
+  const blurred = new Float32Array(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let k = -half; k <= half; k++) {
+        const sx = Math.min(width - 1, Math.max(0, x + k));
+        const index = (y * width + sx) * 4;
+        const alpha = data[index + 3];
+        const weight = kernel[k + half];
+        r += data[index] * alpha * weight;
+        g += data[index + 1] * alpha * weight;
+        b += data[index + 2] * alpha * weight;
+        a += alpha * weight;
+      }
+      const out = (y * width + x) * 4;
+      temp[out] = r;
+      temp[out + 1] = g;
+      temp[out + 2] = b;
+      temp[out + 3] = a;
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let k = -half; k <= half; k++) {
+        const sy = Math.min(height - 1, Math.max(0, y + k));
+        const index = (sy * width + x) * 4;
+        const weight = kernel[k + half];
+        r += temp[index] * weight;
+        g += temp[index + 1] * weight;
+        b += temp[index + 2] * weight;
+        a += temp[index + 3] * weight;
+      }
+      const out = (y * width + x) * 4;
+      blurred[out] = r;
+      blurred[out + 1] = g;
+      blurred[out + 2] = b;
+      blurred[out + 3] = a;
+    }
+  }
+
+  for (let i = 0; i < data.length; i += 4) {
+    const blurredAlpha = blurred[i + 3];
+    if (data[i + 3] === 0 || blurredAlpha === 0) continue;
+    for (let c = 0; c < 3; c++) {
+      const diff = data[i + c] - blurred[i + c] / blurredAlpha;
+      if (Math.abs(diff) >= threshold) {
+        data[i + c] = data[i + c] + diff * amount;
+      }
+    }
+  }
+};
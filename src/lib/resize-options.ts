@@ -0,0 +1,89 @@
+import { OutputFormat } from "@/lib/image-formats";
+
+export const RESIZE_FITS = [
+  "cover",
+  "contain",
+  "fill",
+  "inside",
+  "outside",
+] as const;
+export type ResizeFit = (typeof RESIZE_FITS)[number];
+
+export const RESIZE_POSITIONS = [
+  "centre",
+  "north",
+  "northeast",
+  "east",
+  "southeast",
+  "south",
+  "southwest",
+  "west",
+  "northwest",
+  "entropy",
+  "attention",
+] as const;
+export type ResizePosition = (typeof RESIZE_POSITIONS)[number];
+
+export const RESIZE_KERNELS = [
+  "lanczos3",
+  "lanczos2",
+  "mitchell",
+  "cubic",
+  "linear",
+  "nearest",
+  "mks2013",
+  "mks2021",
+] as const;
+export type ResizeKernel = (typeof RESIZE_KERNELS)[number];
+
+export const RESIZE_FIT_LABELS: Record<ResizeFit, string> = {
+  cover: "Cubrir (recorta)",
+  contain: "Contener (rellena)",
+  fill: "Estirar",
+  inside: "Dentro (mantiene proporción)",
+  outside: "Fuera (mantiene proporción)",
+};
+
+export const RESIZE_POSITION_LABELS: Record<ResizePosition, string> = {
+  centre: "Centro",
+  north: "Arriba",
+  northeast: "Arriba derecha",
+  east: "Derecha",
+  southeast: "Abajo derecha",
+  south: "Abajo",
+  southwest: "Abajo izquierda",
+  west: "Izquierda",
+  northwest: "Arriba izquierda",
+  entropy: "Automático (entropía)",
+  attention: "Automático (atención)",
+};
+
+export interface ServerResizeOptions {
+  width?: number;
+  height?: number;
+  fit: ResizeFit;
+  position: ResizePosition;
+  background: string;
+  kernel: ResizeKernel;
+  withoutEnlargement: boolean;
+  quality?: number;
+  // Sin formato se conserva el de entrada cuando se puede codificar.
+  format?: OutputFormat;
+}
+
+export const DEFAULT_SERVER_RESIZE_OPTIONS: ServerResizeOptions = {
+  fit: "inside",
+  position: "centre",
+  background: "transparent",
+  kernel: "lanczos3",
+  withoutEnlargement: false,
+};
+
+export const appendResizeOptions = (
+  formData: FormData,
+  options: ServerResizeOptions
+) => {
+  Object.entries(options).forEach(([key, value]) => {
+    if (value !== undefined) formData.append(key, String(value));
+  });
+};
@@ -0,0 +1,265 @@
+import sharp from "sharp";
+import { applyEncoderOptions, toEncoderFormat } from "@/lib/encoder-options";
+import { ImageError } from "@/lib/errors";
+import { getFormatSupport } from "@/lib/format-support";
+import {
+  ANIMATED_FORMATS,
+  FORMAT_LABELS,
+  OutputFormat,
+  normalizeFormat,
+} from "@/lib/image-formats";
+import { readField } from "@/lib/input";
+import { MAX_INPUT_PIXELS } from "@/lib/limits";
+import {
+  DEFAULT_SERVER_RESIZE_OPTIONS,
+  RESIZE_FITS,
+  RESIZE_KERNELS,
+  RESIZE_POSITIONS,
+  ResizeFit,
+  ResizeKernel,
+  ResizePosition,
+  ServerResizeOptions,
+} from "@/lib/resize-options";
+import { SniffedFormat } from "@/lib/sniff";
+
+const MAX_DIMENSION = 16384;
+const COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+const parseDimension = (
+  formData: FormData,
+  key: string
+): number | undefined => {
+  const raw = readField(formData, key);
+  if (raw === undefined) return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1 || value > MAX_DIMENSION) {
+    throw new ImageError(
+      "INVALID_OPTION",
+      `El parámetro "${key}" debe ser un entero entre 1 y ${MAX_DIMENSION}`
+    );
+  }
+  return value;
+};
+
+const parseChoice = <T extends string>(
+  formData: FormData,
+  key: string,
+  values: readonly T[],
+  fallback: T
+): T => {
+  const raw = readField(formData, key);
+  if (raw === undefined) return fallback;
+  if (!(values as readonly string[]).includes(raw)) {
+    throw new ImageError(
+      "INVALID_OPTION",
+      `El parámetro "${key}" debe ser uno de: ${values.join(", ")}`
+    );
+  }
+  return raw as T;
+};
+
+export const parseResizeOptions = (formData: FormData): ServerResizeOptions => {
+  const width = parseDimension(formData, "width");
+  const height = parseDimension(formData, "height");
+
+  if (width === undefined && height === undefined) {
+    throw new ImageError(
+      "INVALID_OPTION",
+      'Debe indicarse "width", "height" o ambos'
+    );
+  }
+  if (width && height && width * height > MAX_INPUT_PIXELS) {
+    throw new ImageError(
+      "PIXEL_LIMIT_EXCEEDED",
+      "Las dimensiones de salida superan el límite de píxeles permitido"
+    );
+  }
+
+  const background =
+    readField(formData, "background") ??
+    DEFAULT_SERVER_RESIZE_OPTIONS.background;
+  if (background !== "transparent" && !COLOR_PATTERN.test(background)) {
+    throw new ImageError(
+      "INVALID_OPTION",
+      'El parámetro "background" debe ser "transparent" o un color #rrggbb'
+    );
+  }
+
+  const withoutEnlargement = readField(formData, "withoutEnlargement");
+  if (
+    withoutEnlargement !== undefined &&
+    withoutEnlargement !== "true" &&
+    withoutEnlargement !== "false"
+  ) {
+    throw new ImageError(
+      "INVALID_OPTION",
+      'El parámetro "withoutEnlargement" debe ser "true" o "false"'
+    );
+  }
+
+  const rawFormat = readField(formData, "format");
+  const format =
+    rawFormat === undefined ? undefined : normalizeFormat(rawFormat);
+  if (format === null) {
+    throw new ImageError("INVALID_FORMAT", "Formato no válido");
+  }
+
+  const rawQuality = readField(formData, "quality");
+  const quality = rawQuality === undefined ? undefined : Number(rawQuality);
+  if (
+    quality !== undefined &&
+    (!Number.isInteger(quality) || quality < 1 || quality > 100)
+  ) {
+    throw new ImageError(
+      "INVALID_OPTION",
+      'El parámetro "quality" debe ser un entero entre 1 y 100'
+    );
+  }
+
+  return {
+    width,
+    height,
+    fit: parseChoice<ResizeFit>(
+      formData,
+      "fit",
+      RESIZE_FITS,
+      DEFAULT_SERVER_RESIZE_OPTIONS.fit
+    ),
+    position: parseChoice<ResizePosition>(
+      formData,
+      "position",
+      RESIZE_POSITIONS,
+      DEFAULT_SERVER_RESIZE_OPTIONS.position
+    ),
+    background,
+    kernel: parseChoice<ResizeKernel>(
+      formData,
+      "kernel",
+      RESIZE_KERNELS,
+      DEFAULT_SERVER_RESIZE_OPTIONS.kernel
+    ),
+    withoutEnlargement: withoutEnlargement === "true",
+    quality,
+    format,
+  };
+};
+
+// Se conserva el formato de entrada siempre que el servidor pueda codificarlo.
+export const resolveSameFormat = async (
+  input: SniffedFormat
+): Promise<OutputFormat> => {
+  const format = normalizeFormat(input);
+  const support = await getFormatSupport();
+  return format && support[format] ? format : "png";
+};
+
+// Tamaño que dará sharp con estas opciones, según la imagen ya girada.
+const getOutputSize = (
+  metadata: sharp.Metadata,
+  options: ServerResizeOptions
+) => {
+  const swap = (metadata.orientation ?? 1) >= 5;
+  const inputWidth = (swap ? metadata.height : metadata.width) ?? 1;
+  const inputHeight =
+    (swap ? metadata.width : metadata.pageHeight ?? metadata.height) ?? 1;
+  const scaleX = options.width ? options.width / inputWidth : undefined;
+  const scaleY = options.height ? options.height / inputHeight : undefined;
+
+  let width: number;
+  let height: number;
+  if (scaleX !== undefined && scaleY !== undefined) {
+    if (options.fit === "inside" || options.fit === "outside") {
+      const scale =
+        options.fit === "inside"
+          ? Math.min(scaleX, scaleY)
+          : Math.max(scaleX, scaleY);
+      width = inputWidth * scale;
+      height = inputHeight * scale;
+    } else {
+      width = options.width!;
+      height = options.height!;
+    }
+  } else {
+    const scale = (scaleX ?? scaleY)!;
+    width = inputWidth * scale;
+    height = inputHeight * scale;
+  }
+
+  if (
+    options.withoutEnlargement &&
+    (width > inputWidth || height > inputHeight)
+  ) {
+    return { width: inputWidth, height: inputHeight };
+  }
+  return { width: Math.round(width), height: Math.round(height) };
+};
+
+export interface ResizeResult {
+  buffer: Buffer;
+  format: OutputFormat;
+  width: number;
+  height: number;
+}
+
+export const resizeBuffer = async (
+  buffer: Buffer,
+  inputFormat: SniffedFormat,
+  options: ServerResizeOptions
+): Promise<ResizeResult> => {
+  const format = options.format ?? (await resolveSameFormat(inputFormat));
+  if (options.format && !(await getFormatSupport())[options.format]) {
+    throw new ImageError(
+      "UNSUPPORTED_OUTPUT",
+      `El servidor no puede generar imágenes ${FORMAT_LABELS[options.format]}`
+    );
+  }
+  const encoderFormat = toEncoderFormat(format)!;
+  const animated = ANIMATED_FORMATS.includes(format);
+
+  // Con una sola medida la otra sale de la proporción del original, así que
+  // el límite se comprueba sobre la salida real antes de redimensionar.
+  const metadata = await sharp(buffer, {
+    limitInputPixels: MAX_INPUT_PIXELS,
+  }).metadata();
+  const output = getOutputSize(metadata, options);
+  const frames = animated ? metadata.pages ?? 1 : 1;
+  if (output.width * output.height * frames > MAX_INPUT_PIXELS) {
+    throw new ImageError(
+      "PIXEL_LIMIT_EXCEEDED",
+      "Las dimensiones de salida superan el límite de píxeles permitido"
+    );
+  }
+
+  const pipeline = sharp(buffer, {
+    animated,
+    limitInputPixels: MAX_INPUT_PIXELS,
+  })
+    .rotate()
+    .resize({
+      width: options.width,
+      height: options.height,
+      fit: options.fit,
+      position: options.position,
+      background:
+        options.background === "transparent"
+          ? { r: 0, g: 0, b: 0, alpha: 0 }
+          : options.background,
+      kernel: options.kernel,
+      withoutEnlargement: options.withoutEnlargement,
+    });
+
+  const { data, info } = await applyEncoderOptions(
+    pipeline,
+    encoderFormat,
+    options.quality !== undefined && format !== "png" && format !== "gif"
+      ? { quality: options.quality }
+      : {}
+  ).toBuffer({ resolveWithObject: true });
+
+  return {
+    buffer: data,
+    format,
+    width: info.width,
+    height: info.pageHeight ?? info.height,
+  };
+};
@@ -0,0 +1,90 @@
+import { FILE_EXTENSIONS, MIME_TYPES, OutputFormat } from "@/lib/image-formats";
+
+// Orden de preferencia de los <source>: el navegador usa el primero que admite.
+export const RESPONSIVE_FORMATS: OutputFormat[] = [
+  "avif",
+  "webp",
+  "jpg",
+  "png",
+];
+
+export const DEFAULT_RESPONSIVE_WIDTHS = [320, 640, 960, 1280, 1920];
+
+const MAX_WIDTH = 16384;
+
+export interface ResponsiveVariant {
+  file: string;
+  format: OutputFormat;
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+export const parseWidths = (text: string): number[] =>
+  Array.from(
+    new Set(
+      text
+        .split(/[\s,;]+/)
+        .map(Number)
+        .filter(
+          (width) => Number.isInteger(width) && width > 0 && width <= MAX_WIDTH
+        )
+    )
+  ).sort((a, b) => a - b);
+
+export const variantFileName = (
+  baseName: string,
+  width: number,
+  format: OutputFormat
+) => `${baseName}-${width}w.${FILE_EXTENSIONS[format]}`;
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+
+const toSrcset = (variants: ResponsiveVariant[]) =>
+  variants
+    .map((variant) => `${encodeURI(variant.file)} ${variant.width}w`)
+    .join(", ");
+
+export const buildPictureMarkup = (
+  variants: ResponsiveVariant[],
+  { alt, sizes }: { alt: string; sizes: string }
+): string => {
+  const formats = RESPONSIVE_FORMATS.filter((format) =>
+    variants.some((variant) => variant.format === format)
+  );
+  if (formats.length === 0) return "";
+
+  // El <img> usa JPG si está, que pesa menos que PNG a tamaño completo; si
+  // no, el formato más compatible. El resto van como <source>, salvo PNG
+  // cuando hay JPG: todos los navegadores lo aceptan y taparía al <img>.
+  const fallback = formats.includes("jpg")
+    ? "jpg"
+    : formats[formats.length - 1];
+  const sources = formats.filter(
+    (format) => format !== fallback && !(fallback === "jpg" && format === "png")
+  );
+  const byFormat = (format: OutputFormat) =>
+    variants
+      .filter((variant) => variant.format === format)
+      .sort((a, b) => a.width - b.width);
+  const fallbackVariants = byFormat(fallback);
+  const largest = fallbackVariants[fallbackVariants.length - 1];
+  const sizesAttribute = escapeAttribute(sizes);
+
+  return [
+    "<picture>",
+    ...sources.map(
+      (format) =>
+        `  <source type="${MIME_TYPES[format]}" srcset="${toSrcset(
+          byFormat(format)
+        )}" sizes="${sizesAttribute}">`
+    ),
+    `  <img src="${encodeURI(largest.file)}" srcset="${toSrcset(
+      fallbackVariants
+    )}" sizes="${sizesAttribute}" width="${largest.width}" height="${
+      largest.height
+    }" alt="${escapeAttribute(alt)}" loading="lazy" decoding="async">`,
+    "</picture>",
+  ].join("\n");
+};
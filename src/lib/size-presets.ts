@@ -0,0 +1,194 @@
+import { readStoredSetting, writeStoredSetting } from "@/lib/stored-settings";
+
+export const PRESET_FITS = ["cover", "contain", "inside"] as const;
+export type PresetFit = (typeof PRESET_FITS)[number];
+
+export const PRESET_FIT_LABELS: Record<PresetFit, string> = {
+  cover: "recorte",
+  contain: "relleno",
+  inside: "sin recorte",
+};
+
+export interface SizePreset {
+  id: string;
+  group: string;
+  label: string;
+  width: number;
+  height: number;
+  fit: PresetFit;
+}
+
+export const USER_PRESET_GROUP = "Mis presets";
+
+export const SIZE_PRESETS: SizePreset[] = [
+  {
+    id: "instagram-post",
+    group: "Instagram",
+    label: "Publicación cuadrada",
+    width: 1080,
+    height: 1080,
+    fit: "cover",
+  },
+  {
+    id: "instagram-portrait",
+    group: "Instagram",
+    label: "Publicación vertical",
+    width: 1080,
+    height: 1350,
+    fit: "cover",
+  },
+  {
+    id: "instagram-story",
+    group: "Instagram",
+    label: "Historia",
+    width: 1080,
+    height: 1920,
+    fit: "cover",
+  },
+  {
+    id: "instagram-reel",
+    group: "Instagram",
+    label: "Reel (portada)",
+    width: 1080,
+    height: 1920,
+    fit: "cover",
+  },
+  {
+    id: "open-graph",
+    group: "Web",
+    label: "Open Graph",
+    width: 1200,
+    height: 630,
+    fit: "cover",
+  },
+  {
+    id: "full-hd",
+    group: "Web",
+    label: "Full HD",
+    width: 1920,
+    height: 1080,
+    fit: "inside",
+  },
+  {
+    id: "x-header",
+    group: "X / Twitter",
+    label: "Cabecera",
+    width: 1500,
+    height: 500,
+    fit: "cover",
+  },
+  {
+    id: "x-post",
+    group: "X / Twitter",
+    label: "Imagen de publicación",
+    width: 1600,
+    height: 900,
+    fit: "cover",
+  },
+  {
+    id: "youtube-thumbnail",
+    group: "YouTube",
+    label: "Miniatura",
+    width: 1280,
+    height: 720,
+    fit: "cover",
+  },
+  {
+    id: "youtube-banner",
+    group: "YouTube",
+    label: "Banner del canal",
+    width: 2560,
+    height: 1440,
+    fit: "cover",
+  },
+  {
+    id: "linkedin-banner",
+    group: "LinkedIn",
+    label: "Banner de perfil",
+    width: 1584,
+    height: 396,
+    fit: "cover",
+  },
+  {
+    id: "linkedin-post",
+    group: "LinkedIn",
+    label: "Imagen de publicación",
+    width: 1200,
+    height: 627,
+    fit: "cover",
+  },
+  {
+    id: "facebook-cover",
+    group: "Facebook",
+    label: "Portada",
+    width: 1640,
+    height: 624,
+    fit: "cover",
+  },
+  {
+    id: "pinterest-pin",
+    group: "Pinterest",
+    label: "Pin",
+    width: 1000,
+    height: 1500,
+    fit: "cover",
+  },
+  {
+    id: "a4-portrait",
+    group: "Impresión (300 DPI)",
+    label: "A4 vertical",
+    width: 2480,
+    height: 3508,
+    fit: "contain",
+  },
+  {
+    id: "a4-landscape",
+    group: "Impresión (300 DPI)",
+    label: "A4 horizontal",
+    width: 3508,
+    height: 2480,
+    fit: "contain",
+  },
+  {
+    id: "letter-portrait",
+    group: "Impresión (300 DPI)",
+    label: "Carta vertical",
+    width: 2550,
+    height: 3300,
+    fit: "contain",
+  },
+];
+
+const STORAGE_KEY = "size-presets";
+
+const isSizePreset = (value: unknown): value is SizePreset => {
+  const preset = value as SizePreset;
+  return (
+    typeof preset?.id === "string" &&
+    typeof preset.label === "string" &&
+    Number.isInteger(preset.width) &&
+    preset.width > 0 &&
+    Number.isInteger(preset.height) &&
+    preset.height > 0 &&
+    PRESET_FITS.includes(preset.fit)
+  );
+};
+
+export const loadUserPresets = (): SizePreset[] => {
+  try {
+    const stored = JSON.parse(readStoredSetting(STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored)
+      ? stored
+          .filter(isSizePreset)
+          .map((preset) => ({ ...preset, group: USER_PRESET_GROUP }))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveUserPresets = (presets: SizePreset[]) =>
+  writeStoredSetting(STORAGE_KEY, JSON.stringify(presets));
+
+export const describePreset = (preset: SizePreset) =>
+  `${preset.width}×${preset.height}, ${PRESET_FIT_LABELS[preset.fit]}`;
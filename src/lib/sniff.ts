@@ -0,0 +1,196 @@
+export type SniffedFormat =
+  | "png"
+  | "jpg"
+  | "gif"
+  | "webp"
+  | "tiff"
+  | "avif"
+  | "heif"
+  | "jxl"
+  | "bmp"
+  | "svg";
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  bytes.length >= offset + signature.length &&
+  signature.every((byte, i) => bytes[offset + i] === byte);
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...Array.from(bytes.subarray(start, end)));
+
+const AVIF_BRANDS = ["avif", "avis"];
+const HEIF_BRANDS = [
+  "heic",
+  "heix",
+  "hevc",
+  "hevx",
+  "heim",
+  "heis",
+  "mif1",
+  "msf1",
+];
+
+// Identifica el formato real a partir de la firma de los primeros bytes; basta
+// con leer 512 bytes del archivo.
+export const sniffImageFormat = (bytes: Uint8Array): SniffedFormat | null => {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "png";
+  }
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "jpg";
+  if (ascii(bytes, 0, 6) === "GIF87a" || ascii(bytes, 0, 6) === "GIF89a") {
+    return "gif";
+  }
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP") {
+    return "webp";
+  }
+  if (
+    startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) ||
+    startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])
+  ) {
+    return "tiff";
+  }
+  if (ascii(bytes, 4, 8) === "ftyp") {
+    const boxSize = Math.min(
+      (bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3],
+      bytes.length
+    );
+    const brands = [ascii(bytes, 8, 12)];
+    for (let i = 16; i + 4 <= boxSize; i += 4) {
+      brands.push(ascii(bytes, i, i + 4));
+    }
+    if (brands.some((brand) => AVIF_BRANDS.includes(brand))) return "avif";
+    if (brands.some((brand) => HEIF_BRANDS.includes(brand))) return "heif";
+    return null;
+  }
+  if (
+    startsWith(bytes, [0xff, 0x0a]) ||
+    startsWith(
+      bytes,
+      [0x00, 0x00, 0x00, 0x0c, 0x4a, 0x58, 0x4c, 0x20, 0x0d, 0x0a, 0x87, 0x0a]
+    )
+  ) {
+    return "jxl";
+  }
+  if (ascii(bytes, 0, 2) === "BM") return "bmp";
+
+  const text = new TextDecoder()
+    .decode(bytes.subarray(0, 512))
+    .replace(/^\uFEFF/, "")
+    .trimStart();
+  if (
+    text.startsWith("<svg") ||
+    ((text.startsWith("<?xml") || text.startsWith("<!--")) &&
+      text.includes("<svg"))
+  ) {
+    return "svg";
+  }
+
+  return null;
+};
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+const uint16 = (bytes: Uint8Array, offset: number, littleEndian: boolean) =>
+  littleEndian
+    ? bytes[offset] | (bytes[offset + 1] << 8)
+    : (bytes[offset] << 8) | bytes[offset + 1];
+
+const uint24le = (bytes: Uint8Array, offset: number) =>
+  bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+
+const uint32be = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) |
+    (bytes[offset + 1] << 16) |
+    (bytes[offset + 2] << 8) |
+    bytes[offset + 3]) >>>
+  0;
+
+// Recorre los segmentos hasta el primer SOF, que trae las dimensiones.
+const readJpegSize = (bytes: Uint8Array): ImageSize | null => {
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    const isSof =
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc;
+    if (isSof) {
+      return {
+        height: uint16(bytes, offset + 5, false),
+        width: uint16(bytes, offset + 7, false),
+      };
+    }
+    offset += 2 + uint16(bytes, offset + 2, false);
+  }
+  return null;
+};
+
+const readWebpSize = (bytes: Uint8Array): ImageSize | null => {
+  switch (ascii(bytes, 12, 16)) {
+    case "VP8 ":
+      return {
+        width: uint16(bytes, 26, true) & 0x3fff,
+        height: uint16(bytes, 28, true) & 0x3fff,
+      };
+    case "VP8L": {
+      const bits =
+        (bytes[21] |
+          (bytes[22] << 8) |
+          (bytes[23] << 16) |
+          (bytes[24] << 24)) >>>
+        0;
+      return {
+        width: (bits & 0x3fff) + 1,
+        height: ((bits >>> 14) & 0x3fff) + 1,
+      };
+    }
+    case "VP8X":
+      return {
+        width: uint24le(bytes, 24) + 1,
+        height: uint24le(bytes, 27) + 1,
+      };
+    default:
+      return null;
+  }
+};
+
+// Lee el ancho y alto declarados en la cabecera sin decodificar la imagen.
+// Solo cubre los formatos que decodifica el navegador; en JPEG el SOF puede
+// quedar detrás de una miniatura EXIF, así que conviene pasar unos 64 KB.
+export const readImageSize = (bytes: Uint8Array): ImageSize | null => {
+  let size: ImageSize | null = null;
+  switch (sniffImageFormat(bytes)) {
+    case "png":
+      size = { width: uint32be(bytes, 16), height: uint32be(bytes, 20) };
+      break;
+    case "gif":
+      size = { width: uint16(bytes, 6, true), height: uint16(bytes, 8, true) };
+      break;
+    case "bmp": {
+      if (bytes.length < 26) break;
+      // El alto es negativo cuando las filas van de arriba abajo.
+      const view = new DataView(bytes.buffer, bytes.byteOffset, 26);
+      size = {
+        width: Math.abs(view.getInt32(18, true)),
+        height: Math.abs(view.getInt32(22, true)),
+      };
+      break;
+    }
+    case "webp":
+      size = readWebpSize(bytes);
+      break;
+    case "jpg":
+      size = readJpegSize(bytes);
+      break;
+  }
+  return size && size.width > 0 && size.height > 0 ? size : null;
+};
@@ -0,0 +1,21 @@
+// Preferencias guardadas en localStorage. Si no hay almacenamiento (modo
+// privado, cookies bloqueadas) se lee null y la escritura no hace nada, así
+// que lo elegido dura solo la sesión.
+export const readStoredSetting = (key: string): string | null => {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+// Con null se borra la clave para volver al valor por defecto.
+export const writeStoredSetting = (key: string, value: string | null) => {
+  try {
+    if (value === null) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, value);
+    }
+  } catch {}
+};
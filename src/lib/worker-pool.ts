@@ -0,0 +1,165 @@
+import {
+  DecodeError,
+  ImageTask,
+  ImageTaskResult,
+  runImageTask,
+} from "@/lib/canvas-ops";
+
+interface PendingTask {
+  task: ImageTask;
+  resolve: (result: ImageTaskResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface WorkerResponse {
+  id: number;
+  result?: ImageTaskResult;
+  error?: string;
+  decodeFailed?: boolean;
+}
+
+const IDLE_TIMEOUT_MS = 30_000;
+
+class ImageWorkerPool {
+  private idle: Worker[] = [];
+  private workerCount = 0;
+  private waiting: PendingTask[] = [];
+  private nextId = 0;
+  private idleTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(private size: number) {}
+
+  run(task: ImageTask): Promise<ImageTaskResult> {
+    return new Promise((resolve, reject) => {
+      this.waiting.push({ task, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  private dispatch() {
+    clearTimeout(this.idleTimer);
+
+    while (this.waiting.length > 0) {
+      const worker =
+        this.idle.pop() ??
+        (this.workerCount < this.size ? this.spawn() : undefined);
+      if (!worker) return;
+      this.execute(worker, this.waiting.shift()!);
+    }
+
+    // Sin trabajo pendiente, los workers ociosos se cierran al rato para
+    // devolver su memoria.
+    if (this.idle.length === this.workerCount && this.workerCount > 0) {
+      this.idleTimer = setTimeout(() => {
+        this.idle.forEach((worker) => worker.terminate());
+        this.workerCount -= this.idle.length;
+        this.idle = [];
+      }, IDLE_TIMEOUT_MS);
+    }
+  }
+
+  private spawn() {
+    this.workerCount++;
+    return new Worker(new URL("./image.worker.ts", import.meta.url), {
+      type: "module",
+    });
+  }
+
+  private execute(worker: Worker, pending: PendingTask) {
+    const id = ++this.nextId;
+
+    const cleanup = () => {
+      worker.removeEventListener("message", handleMessage);
+      worker.removeEventListener("error", handleError);
+    };
+
+    const handleMessage = ({ data }: MessageEvent<WorkerResponse>) => {
+      if (data.id !== id) return;
+      cleanup();
+      this.idle.push(worker);
+      if (data.result) {
+        pending.resolve(data.result);
+      } else if (data.decodeFailed) {
+        pending.reject(new DecodeError(data.error));
+      } else {
+        pending.reject(new Error(data.error ?? "Error al procesar la imagen"));
+      }
+      this.dispatch();
+    };
+
+    // Un worker que falla por completo se descarta y se crea otro después.
+    const handleError = (event: ErrorEvent) => {
+      event.preventDefault();
+      cleanup();
+      worker.terminate();
+      this.workerCount--;
+      pending.reject(new Error(event.message || "El worker se detuvo"));
+      this.dispatch();
+    };
+
+    worker.addEventListener("message", handleMessage);
+    worker.addEventListener("error", handleError);
+    worker.postMessage({ id, task: pending.task });
+  }
+}
+
+let pool: ImageWorkerPool | null = null;
+let workersAvailable: boolean | undefined;
+
+const canUseWorkers = () => {
+  if (workersAvailable === undefined) {
+    try {
+      workersAvailable =
+        typeof Worker !== "undefined" &&
+        typeof OffscreenCanvas !== "undefined" &&
+        !!new OffscreenCanvas(1, 1).getContext("2d");
+    } catch {
+      workersAvailable = false;
+    }
+  }
+  return workersAvailable;
+};
+
+// Se deja un núcleo libre para la interfaz.
+export const getImageConcurrency = () =>
+  canUseWorkers()
+    ? Math.min(4, Math.max(1, (navigator.hardwareConcurrency || 2) - 1))
+    : 1;
+
+// En el navegador varias imágenes van en paralelo en los workers; al servidor
+// se envían de una en una.
+export const getBatchConcurrency = (mode: "client" | "server") =>
+  mode === "client" ? getImageConcurrency() : 1;
+
+export const processImage = async (
+  task: ImageTask
+): Promise<ImageTaskResult> => {
+  if (!canUseWorkers()) return runImageTask(task);
+
+  pool ??= new ImageWorkerPool(getImageConcurrency());
+  try {
+    return await pool.run(task);
+  } catch (error) {
+    // Solo lo que el worker no puede abrir (algunos SVG, Safari antiguo) se
+    // reintenta en el hilo principal con un <img>; repetir otros fallos
+    // doblaría el trabajo y bloquearía la interfaz.
+    if (!(error instanceof DecodeError)) throw error;
+    return runImageTask(task);
+  }
+};
+
+export const forEachConcurrent = async <T>(
+  items: T[],
+  limit: number,
+  job: (item: T) => Promise<void>
+) => {
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length) {
+      await job(items[next++]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, lane)
+  );
+};
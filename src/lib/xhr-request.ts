@@ -0,0 +1,82 @@
+export interface TransferProgress {
+  phase: "upload" | "download";
+  loaded: number;
+  total: number;
+}
+
+interface XhrRequestOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: TransferProgress) => void;
+}
+
+const parseHeaders = (raw: string): Headers => {
+  const headers = new Headers();
+  raw
+    .trim()
+    .split(/[\r\n]+/)
+    .forEach((line) => {
+      const separator = line.indexOf(":");
+      if (separator > 0) {
+        headers.append(
+          line.slice(0, separator).trim(),
+          line.slice(separator + 1).trim()
+        );
+      }
+    });
+  return headers;
+};
+
+// fetch no informa del progreso de subida, así que se usa XMLHttpRequest y se
+// devuelve un Response para que el resto del código no note la diferencia.
+export const postFormData = (
+  url: string,
+  body: FormData,
+  { signal, onProgress }: XhrRequestOptions = {}
+): Promise<Response> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", url);
+    xhr.responseType = "blob";
+
+    xhr.upload.onprogress = (event) =>
+      onProgress?.({
+        phase: "upload",
+        loaded: event.loaded,
+        total: event.lengthComputable ? event.total : 0,
+      });
+    xhr.onprogress = (event) =>
+      onProgress?.({
+        phase: "download",
+        loaded: event.loaded,
+        total: event.lengthComputable ? event.total : 0,
+      });
+
+    // El listener se quita al terminar para no acumularse en señales que
+    // se reutilizan durante todo el lote.
+    const handleAbort = () => xhr.abort();
+    const cleanup = () => signal?.removeEventListener("abort", handleAbort);
+
+    xhr.onload = () => {
+      cleanup();
+      resolve(
+        new Response(xhr.response, {
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers: parseHeaders(xhr.getAllResponseHeaders()),
+        })
+      );
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new TypeError("Error de red"));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(signal?.reason);
+    };
+
+    signal?.addEventListener("abort", handleAbort, { once: true });
+    xhr.send(body);
+  });
@@ -0,0 +1,34 @@
+// gifenc no publica tipos; solo se declara lo que usa browser-codecs.
+declare module "gifenc" {
+  export type Palette = number[][];
+  export type PaletteFormat = "rgb565" | "rgb444" | "rgba4444";
+
+  export function quantize(
+    rgba: Uint8Array | Uint8ClampedArray,
+    maxColors: number,
+    options?: { format?: PaletteFormat; oneBitAlpha?: boolean | number }
+  ): Palette;
+
+  export function applyPalette(
+    rgba: Uint8Array | Uint8ClampedArray,
+    palette: Palette,
+    format?: PaletteFormat
+  ): Uint8Array;
+
+  export interface GIFStream {
+    writeFrame(
+      index: Uint8Array,
+      width: number,
+      height: number,
+      options?: {
+        palette?: Palette;
+        transparent?: boolean;
+        transparentIndex?: number;
+      }
+    ): void;
+    finish(): void;
+    bytes(): Uint8Array<ArrayBuffer>;
+  }
+
+  export function GIFEncoder(): GIFStream;
+}